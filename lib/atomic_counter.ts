@@ -1,3 +1,5 @@
+import {waitAsync} from './wait_async';
+
 /**
  * A counter that can be atomically incremented and decremented, and which
  * callers can synchronously listen for it becoming non-zero.
@@ -14,25 +16,66 @@ export class AtomicCounter {
    */
   private readonly buffer: BigInt64Array;
 
-  constructor(buffer: SharedArrayBuffer) {
-    if (buffer.byteLength !== 16) {
+  /**
+   * Creates a counter backed by the 16 bytes of `buffer` starting at
+   * `byteOffset`. If `byteOffset` isn't passed, `buffer` must be exactly 16
+   * bytes long.
+   */
+  constructor(buffer: SharedArrayBuffer, byteOffset?: number) {
+    if (byteOffset === undefined && buffer.byteLength !== 16) {
       throw new Error('SharedArrayBuffer must have a byteLength of 16.');
     }
-    this.buffer = new BigInt64Array(buffer);
+    this.buffer = new BigInt64Array(buffer, byteOffset ?? 0, 2);
   }
 
-  /** Atomically decrement the current value by one. */
+  /**
+   * The current value of the counter.
+   *
+   * This excludes the adjustment {@link close} makes to wake up waiters.
+   */
+  get value(): number {
+    const value = Number(Atomics.load(this.buffer, 0));
+    return this.closed ? Math.max(0, value - 1) : value;
+  }
+
+  /**
+   * Atomically decrement the current value by one.
+   *
+   * This notifies any callers of {@link waitBelow}.
+   */
   decrement(): void {
-    Atomics.sub(this.buffer, 0, 1n);
+    this.subtract(1);
   }
 
   /** Atomically increment the current value by one. */
   increment(): void {
-    if (Atomics.add(this.buffer, 0, 1n) === 0n) {
-      Atomics.notify(this.buffer, 0, 1);
+    this.add(1);
+  }
+
+  /**
+   * Atomically decrement the current value by `amount`.
+   *
+   * This notifies any callers of {@link waitBelow}.
+   */
+  subtract(amount: number): void {
+    Atomics.sub(this.buffer, 0, BigInt(amount));
+    Atomics.notify(this.buffer, 0);
+  }
+
+  /** Atomically increment the current value by `amount`. */
+  add(amount: number): void {
+    // Notify all waiters, since both a synchronous and any number of
+    // asynchronous waiters may be waiting on the same counter.
+    if (Atomics.add(this.buffer, 0, BigInt(amount)) === 0n) {
+      Atomics.notify(this.buffer, 0);
     }
   }
 
+  /** Whether the counter has been closed. */
+  get closed(): boolean {
+    return Atomics.load(this.buffer, 1) !== 0n;
+  }
+
   /**
    * Closes the counter.
    *
@@ -40,13 +83,12 @@ export class AtomicCounter {
    * return `true` immediately.
    */
   close(): void {
-    // The current value is no longer relevant once closed, therefore set it to
-    // non-zero to prevent a potential deadlock when `Atomics.notify` is called
-    // immediately before `Atomics.wait`.
-    if (
-      Atomics.compareExchange(this.buffer, 1, 0n, 1n) === 0n &&
-      Atomics.compareExchange(this.buffer, 0, 0n, 1n) === 0n
-    ) {
+    // The current value is no longer relevant once closed, therefore change it
+    // to prevent a potential deadlock when `Atomics.notify` is called
+    // immediately before `Atomics.wait`. It's incremented rather than set so
+    // that callers of both `wait` and `waitBelow` observe the change.
+    if (Atomics.compareExchange(this.buffer, 1, 0n, 1n) === 0n) {
+      Atomics.add(this.buffer, 0, 1n);
       Atomics.notify(this.buffer, 0);
     }
   }
@@ -69,4 +111,42 @@ export class AtomicCounter {
     }
     return true;
   }
+
+  /**
+   * Waits until the current value is less than `limit` or the counter is
+   * closed.
+   *
+   * Returns `true` when the counter is less than `limit` *or* when it's
+   * closed. Returns `false` if the counter remains at or above `limit` for
+   * `timeout` milliseconds.
+   */
+  waitBelow(limit: number, timeout?: number): boolean {
+    for (;;) {
+      const value = Atomics.load(this.buffer, 0);
+      if (value < BigInt(limit) || Atomics.load(this.buffer, 1) !== 0n) {
+        return true;
+      }
+      if (Atomics.wait(this.buffer, 0, value, timeout) === 'timed-out') {
+        return false;
+      }
+    }
+  }
+
+  /**
+   * Like {@link wait}, but returns a `Promise` rather than blocking the
+   * current thread.
+   */
+  async waitAsync(timeout?: number): Promise<boolean> {
+    while (
+      Atomics.load(this.buffer, 0) === 0n &&
+      Atomics.load(this.buffer, 1) === 0n
+    ) {
+      const result = waitAsync(this.buffer, 0, 0n, timeout);
+      const value = result.async ? await result.value : result.value;
+      if (value !== 'ok') {
+        return value !== 'timed-out';
+      }
+    }
+    return true;
+  }
 }
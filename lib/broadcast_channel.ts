@@ -0,0 +1,84 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {MessagePort} from 'worker_threads';
+
+import {SyncMessagePort} from './index';
+
+/**
+ * A one-to-many channel on which a single publisher sends each message to
+ * every subscriber.
+ *
+ * Each subscriber is a {@link SyncMessagePort} with its own channel, and so its
+ * own atomic counter, so subscribers receive messages independently of one
+ * another and may block in {@link SyncMessagePort.receiveMessage} until one
+ * arrives. Subscribers can join at any time with {@link subscribe}, and leave
+ * by closing their port.
+ */
+export class SyncBroadcastChannel {
+  /** The publisher's ports connected to each subscriber. */
+  private readonly subscribers = new Set<SyncMessagePort>();
+
+  /** Whether {@link close} has been called. */
+  private closed = false;
+
+  /**
+   * Adds a subscriber and returns a port that can be sent to any thread and
+   * passed to `new SyncMessagePort()` there to receive messages.
+   *
+   * The subscriber receives every message posted after this is called. To
+   * unsubscribe, close the `SyncMessagePort`.
+   */
+  subscribe(): MessagePort {
+    if (this.closed) {
+      throw new Error('The SyncBroadcastChannel is closed.');
+    }
+    const channel = SyncMessagePort.createChannel();
+    this.subscribers.add(new SyncMessagePort(channel.port1));
+    return channel.port2;
+  }
+
+  /**
+   * The number of subscribers that were open as of the most recent call to
+   * {@link postMessage}, plus any that have subscribed since.
+   */
+  get subscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Sends `value` to every subscriber. This never blocks.
+   *
+   * `value` is cloned separately for each subscriber, so it may not contain
+   * transferable objects.
+   */
+  postMessage(value: unknown): void {
+    if (this.closed) {
+      throw new Error('The SyncBroadcastChannel is closed.');
+    }
+    for (const subscriber of this.subscribers) {
+      if (subscriber.isClosed) {
+        // Close this side as well so that its underlying ports are released.
+        subscriber.close();
+        this.subscribers.delete(subscriber);
+      } else {
+        subscriber.postMessage(value);
+      }
+    }
+  }
+
+  /**
+   * Closes the channel and the ports connected to every subscriber.
+   *
+   * Once subscribers have received all outstanding messages, their receives
+   * behave as though the channel was closed.
+   */
+  close(): void {
+    this.closed = true;
+    for (const subscriber of this.subscribers) {
+      subscriber.close();
+    }
+    this.subscribers.clear();
+  }
+}
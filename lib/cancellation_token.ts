@@ -0,0 +1,75 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+/**
+ * The index of the word that's signaled when the token is cancelled. This is
+ * also the word wrapped by a {@link Notifier} to wake receives that are waiting
+ * with the token.
+ */
+const SIGNAL = 0;
+
+/** The index of the cancelled state. */
+const CANCELLED = 1;
+
+/**
+ * A token that can be passed as {@link ReceiveMessageOptions.signal} to
+ * interrupt a blocked receive from any thread.
+ *
+ * A token is backed by a `SharedArrayBuffer`, so it can be shared between
+ * threads by sending its {@link buffer} and passing that to `new
+ * CancellationToken()` on the other thread. Cancelling any copy cancels them
+ * all.
+ */
+export class CancellationToken {
+  /**
+   * Returns a token that's cancelled when `signal` is aborted.
+   *
+   * This allows an `AbortSignal` on a thread that's running an event loop to
+   * interrupt a receive that's blocking another thread.
+   */
+  static fromAbortSignal(signal: AbortSignal): CancellationToken {
+    const token = new CancellationToken();
+    if (signal.aborted) {
+      token.cancel();
+    } else {
+      signal.addEventListener('abort', () => token.cancel(), {once: true});
+    }
+    return token;
+  }
+
+  /**
+   * The underlying Int32Array.
+   *
+   * The first Int32 is signaled whenever a receive waiting with this token
+   * should wake up, and the second is set once the token is cancelled.
+   */
+  private readonly words: Int32Array;
+
+  /**
+   * Creates a new token, or a copy of an existing token if `buffer` is the
+   * {@link buffer} of a token from any thread.
+   */
+  constructor(readonly buffer = new SharedArrayBuffer(8)) {
+    if (buffer.byteLength !== 8) {
+      throw new Error('SharedArrayBuffer must have a byteLength of 8.');
+    }
+    this.words = new Int32Array(buffer);
+  }
+
+  /** Whether this token has been cancelled. */
+  get isCancelled(): boolean {
+    return Atomics.load(this.words, CANCELLED) !== 0;
+  }
+
+  /**
+   * Cancels this token, causing any receive waiting with it on any thread to
+   * throw an {@link AbortError}.
+   */
+  cancel(): void {
+    if (Atomics.compareExchange(this.words, CANCELLED, 0, 1) === 0) {
+      Atomics.add(this.words, SIGNAL, 1);
+      Atomics.notify(this.words, SIGNAL);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as v8 from 'v8';
+import {Transferable} from 'worker_threads';
+
+/** A message as encoded by a {@link MessageCodec}. */
+export interface EncodedMessage {
+  /** The structured-clonable data to send. */
+  data: unknown;
+
+  /**
+   * Objects within {@link data} to transfer rather than clone. These are added
+   * to any transfer list passed to {@link SyncMessagePort.postMessage}.
+   */
+  transfer?: Transferable[];
+}
+
+/**
+ * A pair of functions that convert messages to and from the form in which
+ * they're sent across a channel.
+ *
+ * Both ports of a channel must use compatible codecs.
+ */
+export interface MessageCodec {
+  /** Converts `value` into a form that can be sent across the channel. */
+  encode(value: unknown): EncodedMessage;
+
+  /** Converts `data` produced by {@link encode} back into a message. */
+  decode(data: unknown): unknown;
+}
+
+/**
+ * A codec that sends messages as JSON strings.
+ *
+ * This normalizes messages the same way `JSON.stringify()` does, for example
+ * by calling their `toJSON()` methods.
+ */
+export const jsonCodec: MessageCodec = {
+  encode: value => ({data: JSON.stringify(value)}),
+  decode: data => (data === undefined ? undefined : JSON.parse(data as string)),
+};
+
+/**
+ * A codec that sends messages serialized with `v8.serialize()`.
+ *
+ * The serialized bytes are transferred rather than copied.
+ */
+export const v8Codec: MessageCodec = {
+  encode: value => {
+    const buffer = v8.serialize(value);
+    // Only transfer the underlying `ArrayBuffer` if no other data shares it.
+    const ownsBuffer =
+      buffer.byteOffset === 0 && buffer.byteLength === buffer.buffer.byteLength;
+    const data = new Uint8Array(
+      buffer.buffer,
+      buffer.byteOffset,
+      buffer.byteLength,
+    );
+    return ownsBuffer ? {data, transfer: [buffer.buffer]} : {data};
+  },
+  decode: data => v8.deserialize(data as Uint8Array),
+};
@@ -0,0 +1,135 @@
+/** The state of a side that isn't waiting for a message. */
+const IDLE = 0;
+
+/** The state of a side that's waiting indefinitely for a message. */
+const WAITING = 1;
+
+/**
+ * The state of a side that was waiting when the other side detected a
+ * deadlock.
+ */
+const DEADLOCKED = 2;
+
+/** The index of the first side's state. The second side's follows it. */
+const STATE = 0;
+
+/** The index of the first side's wake word. The second side's follows it. */
+const WAKE = 2;
+
+/**
+ * Shared state that lets each side of a channel detect when both sides are
+ * blocked waiting for messages from one another.
+ *
+ * Each side records when it's waiting indefinitely for a message. A side that
+ * starts waiting while the other side is already waiting and no messages are
+ * in flight marks the other side as deadlocked and wakes it up, so both sides
+ * can report the deadlock rather than hanging forever.
+ */
+export class DeadlockDetector {
+  /** Allocates a `SharedArrayBuffer` to be shared by both sides. */
+  static allocate(): SharedArrayBuffer {
+    return new SharedArrayBuffer(16);
+  }
+
+  /**
+   * The underlying Int32Array.
+   *
+   * The first two Int32s hold each side's state, and the second two are
+   * signaled to wake up each side.
+   */
+  private readonly buffer: Int32Array;
+
+  /** The index of this side: 0 or 1. */
+  private readonly side: number;
+
+  /** The index of the other side: 0 or 1. */
+  private readonly peer: number;
+
+  constructor(buffer: SharedArrayBuffer, side: number) {
+    if (buffer.byteLength !== 16) {
+      throw new Error('SharedArrayBuffer must have a byteLength of 16.');
+    }
+    this.buffer = new Int32Array(buffer);
+    this.side = side;
+    this.peer = 1 - side;
+  }
+
+  /**
+   * Blocks until `ready` returns `true`.
+   *
+   * The other side must call {@link signalPeer} whenever it might have made
+   * `ready` return `true`. Returns `false` rather than blocking if the other
+   * side is also waiting while `idle` returns `true`, or if the other side
+   * detects that condition while this is waiting.
+   */
+  wait(ready: () => boolean, idle: () => boolean): boolean {
+    Atomics.store(this.buffer, STATE + this.side, WAITING);
+    try {
+      for (;;) {
+        const generation = Atomics.load(this.buffer, WAKE + this.side);
+        if (Atomics.load(this.buffer, STATE + this.side) === DEADLOCKED) {
+          return false;
+        }
+        if (ready()) return true;
+
+        // Check `idle()` before the other side's state, so that a message that
+        // the other side has just received isn't mistaken for no message.
+        if (idle()) {
+          // Stop waiting before marking the other side. If the other side has
+          // already marked this one, this fails and this side reports the
+          // deadlock it found. Otherwise, once the other side is woken up it
+          // can't mistake this side for still waiting.
+          if (
+            Atomics.compareExchange(
+              this.buffer,
+              STATE + this.side,
+              WAITING,
+              IDLE,
+            ) !== WAITING
+          ) {
+            return false;
+          }
+          if (
+            Atomics.compareExchange(
+              this.buffer,
+              STATE + this.peer,
+              WAITING,
+              DEADLOCKED,
+            ) === WAITING
+          ) {
+            this.signal(this.peer);
+            return false;
+          }
+
+          Atomics.store(this.buffer, STATE + this.side, WAITING);
+          // The other side may have checked this side's state and started
+          // waiting while this side was briefly idle.
+          if (Atomics.load(this.buffer, STATE + this.peer) === WAITING) {
+            continue;
+          }
+        }
+
+        Atomics.wait(this.buffer, WAKE + this.side, generation);
+      }
+    } finally {
+      Atomics.store(this.buffer, STATE + this.side, IDLE);
+    }
+  }
+
+  /** Wakes up the other side if it's waiting. */
+  signalPeer(): void {
+    this.signal(this.peer);
+  }
+
+  /** Wakes up both sides if they're waiting. */
+  signalBoth(): void {
+    this.signal(this.side);
+    this.signal(this.peer);
+  }
+
+  /** Wakes up `side` if it's waiting. */
+  private signal(side: number): void {
+    Atomics.add(this.buffer, WAKE + side, 1);
+    Atomics.notify(this.buffer, WAKE + side);
+  }
+}
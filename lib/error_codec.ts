@@ -0,0 +1,155 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {threadId} from 'worker_threads';
+
+/** A constructor for an `Error` subclass. */
+export type ErrorConstructorLike<E extends Error> = new (...args: never[]) => E;
+
+/** The functions used to encode and decode a registered error type. */
+interface ErrorType {
+  /** Converts an error into structured-clonable data. */
+  encode: (error: Error) => unknown;
+
+  /** Reconstructs an error from data returned by {@link encode}. */
+  decode: (data: unknown) => Error;
+}
+
+/** An error as it's sent across the channel. */
+export interface EncodedError {
+  /**
+   * The name of the error's registered type, or `undefined` if its type wasn't
+   * registered.
+   */
+  type?: string;
+
+  /** The data returned by the registered type's `encode` function. */
+  data?: unknown;
+
+  /** The error's `name`. */
+  name: string;
+
+  /** The error's `message`. */
+  message: string;
+
+  /** The error's `stack`, if it has one. */
+  stack?: string;
+
+  /** The ID of the thread that sent the error. */
+  threadId: number;
+
+  /**
+   * The error's `cause`, if it has one. Causes that are `Error`s are encoded
+   * recursively; other causes are sent as-is.
+   */
+  cause?: {error: EncodedError} | {value: unknown};
+}
+
+/**
+ * Built-in error types that are reconstructed by name even if they aren't
+ * registered.
+ */
+const builtInTypes = new Map<string, new (message?: string) => Error>([
+  ['Error', Error],
+  ['EvalError', EvalError],
+  ['RangeError', RangeError],
+  ['ReferenceError', ReferenceError],
+  ['SyntaxError', SyntaxError],
+  ['TypeError', TypeError],
+  ['URIError', URIError],
+]);
+
+/**
+ * A registry of error types that converts errors to and from a form that
+ * survives structured cloning without losing their class or custom fields.
+ */
+export class ErrorCodec {
+  /** Registered error types, indexed by constructor. */
+  private readonly byConstructor = new Map<unknown, ErrorType>();
+
+  /** Registered error types, indexed by constructor name. */
+  private readonly byName = new Map<string, ErrorType>();
+
+  /** See {@link SyncMessagePort.registerErrorType}. */
+  register<E extends Error>(
+    constructor: ErrorConstructorLike<E>,
+    encode: (error: E) => unknown,
+    decode: (data: unknown) => E,
+  ): void {
+    const type = {encode, decode} as unknown as ErrorType;
+    this.byConstructor.set(constructor, type);
+    this.byName.set(constructor.name, type);
+  }
+
+  /** Converts `error` into a form that survives structured cloning. */
+  encode(error: Error): EncodedError {
+    return this.encodeChain(error, new Set());
+  }
+
+  /**
+   * Like {@link encode}, where `seen` holds the errors earlier in the cause
+   * chain. If `error`'s cause is one of them, it's omitted so that a chain
+   * with a cycle can still be encoded.
+   */
+  private encodeChain(error: Error, seen: Set<Error>): EncodedError {
+    seen.add(error);
+    const encoded: EncodedError = {
+      name: error.name,
+      message: error.message,
+      stack: error.stack,
+      threadId,
+    };
+
+    // Use the most specific registered superclass of the error's class.
+    for (
+      let constructor = error.constructor;
+      constructor && constructor !== Object;
+      constructor = Object.getPrototypeOf(constructor)
+    ) {
+      const type = this.byConstructor.get(constructor);
+      if (type) {
+        encoded.type = constructor.name;
+        encoded.data = type.encode(error);
+        break;
+      }
+    }
+
+    if ('cause' in error) {
+      if (!(error.cause instanceof Error)) {
+        encoded.cause = {value: error.cause};
+      } else if (!seen.has(error.cause)) {
+        encoded.cause = {error: this.encodeChain(error.cause, seen)};
+      }
+    }
+    return encoded;
+  }
+
+  /**
+   * Reconstructs an error encoded by {@link encode}.
+   *
+   * The reconstructed error's stack is annotated with the ID of the thread it
+   * was sent from.
+   */
+  decode(encoded: EncodedError): Error {
+    const type = encoded.type ? this.byName.get(encoded.type) : undefined;
+    let error: Error;
+    if (type) {
+      error = type.decode(encoded.data);
+    } else {
+      error = new (builtInTypes.get(encoded.name) ?? Error)(encoded.message);
+      error.name = encoded.name;
+    }
+
+    if (encoded.stack !== undefined) {
+      error.stack = `${encoded.stack}\n    at <thread ${encoded.threadId}>`;
+    }
+    if (encoded.cause) {
+      (error as Error & {cause?: unknown}).cause =
+        'error' in encoded.cause
+          ? this.decode(encoded.cause.error)
+          : encoded.cause.value;
+    }
+    return error;
+  }
+}
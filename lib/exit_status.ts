@@ -0,0 +1,73 @@
+/** The index of the first side's exited flag. The second side's follows it. */
+const EXITED = 0;
+
+/** The index of the first side's exit code. The second side's follows it. */
+const CODE = 2;
+
+/**
+ * Shared state that records when the thread holding either side of a channel
+ * exits, and with what exit code.
+ */
+export class ExitStatus {
+  /** Allocates a `SharedArrayBuffer` to be shared by both sides. */
+  static allocate(): SharedArrayBuffer {
+    return new SharedArrayBuffer(16);
+  }
+
+  /**
+   * The underlying Int32Array.
+   *
+   * The first two Int32s are set to 1 once each side exits, and the second two
+   * hold each side's exit code.
+   */
+  private readonly buffer: Int32Array;
+
+  /** The index of this side: 0 or 1. */
+  private readonly side: number;
+
+  /** The index of the other side: 0 or 1. */
+  private readonly peer: number;
+
+  constructor(buffer: SharedArrayBuffer, side: number) {
+    if (buffer.byteLength !== 16) {
+      throw new Error('SharedArrayBuffer must have a byteLength of 16.');
+    }
+    this.buffer = new Int32Array(buffer);
+    this.side = side;
+    this.peer = 1 - side;
+  }
+
+  /**
+   * The other side's exit code, or `undefined` if it hasn't exited.
+   */
+  get peerExitCode(): number | undefined {
+    return Atomics.load(this.buffer, EXITED + this.peer) === 0
+      ? undefined
+      : Atomics.load(this.buffer, CODE + this.peer);
+  }
+
+  /**
+   * Records that this side exited with `code`.
+   *
+   * Does nothing if this side has already been recorded as exiting.
+   */
+  markExited(code: number): void {
+    this.mark(this.side, code);
+  }
+
+  /**
+   * Records that the other side exited with `code`.
+   *
+   * Does nothing if the other side has already been recorded as exiting.
+   */
+  markPeerExited(code: number): void {
+    this.mark(this.peer, code);
+  }
+
+  /** Records that `side` exited with `code`. */
+  private mark(side: number, code: number): void {
+    if (Atomics.load(this.buffer, EXITED + side) !== 0) return;
+    Atomics.store(this.buffer, CODE + side, code);
+    Atomics.store(this.buffer, EXITED + side, 1);
+  }
+}
@@ -0,0 +1,129 @@
+/** The index of the closed state. */
+const CLOSED = 0;
+
+/**
+ * The index of a word that's incremented whenever a worker is released or the
+ * queue is closed, and which waiters block on.
+ */
+const SIGNAL = 1;
+
+/** The index of the first worker's state. The rest follow it. */
+const WORKERS = 2;
+
+/** The state of a worker that's available to be claimed. */
+const IDLE = 0;
+
+/** The state of a worker that's been claimed. */
+const BUSY = 1;
+
+/**
+ * The state of a worker that crashed while it was claimed by a thread that
+ * can't replace it.
+ */
+const CRASHED = 2;
+
+/**
+ * The set of idle workers in a {@link SyncWorkerPool}, stored in a
+ * `SharedArrayBuffer` so that threads can synchronously claim workers without
+ * coordinating through the thread that owns the pool.
+ *
+ * Like {@link AtomicCounter}, this can be "open" or "closed"; once it's closed,
+ * {@link claim} will no longer block.
+ */
+export class IdleQueue {
+  /** Allocates a `SharedArrayBuffer` for a queue of `size` workers. */
+  static allocate(size: number): SharedArrayBuffer {
+    return new SharedArrayBuffer((WORKERS + size) * 4);
+  }
+
+  /**
+   * The underlying Int32Array.
+   *
+   * The first Int32 is the closed state, the second is used to signal changes
+   * to the other state, and the rest hold the state of each worker.
+   */
+  private readonly buffer: Int32Array;
+
+  /** The number of workers in the queue. */
+  readonly size: number;
+
+  constructor(buffer: SharedArrayBuffer) {
+    if (buffer.byteLength <= WORKERS * 4 || buffer.byteLength % 4 !== 0) {
+      throw new Error('SharedArrayBuffer was not allocated as an IdleQueue.');
+    }
+    this.buffer = new Int32Array(buffer);
+    this.size = this.buffer.length - WORKERS;
+  }
+
+  /**
+   * Blocks until a worker is idle, marks it as busy, and returns its index.
+   *
+   * If `recover` is passed, this also claims workers marked with {@link
+   * markCrashed} and passes their indices to `recover`, which must replace them
+   * and {@link release} them.
+   *
+   * Throws an error if the queue is closed.
+   */
+  claim(recover?: (index: number) => void): number {
+    for (;;) {
+      const signal = Atomics.load(this.buffer, SIGNAL);
+      if (Atomics.load(this.buffer, CLOSED) !== 0) {
+        throw new Error('The SyncWorkerPool is closed.');
+      }
+      let recovered = false;
+      for (let i = 0; i < this.size; i++) {
+        const state = Atomics.compareExchange(
+          this.buffer,
+          WORKERS + i,
+          IDLE,
+          BUSY,
+        );
+        if (state === IDLE) return i;
+        if (
+          recover &&
+          state === CRASHED &&
+          Atomics.compareExchange(this.buffer, WORKERS + i, CRASHED, BUSY) ===
+            CRASHED
+        ) {
+          recover(i);
+          recovered = true;
+        }
+      }
+      if (!recovered) Atomics.wait(this.buffer, SIGNAL, signal);
+    }
+  }
+
+  /** Marks the worker at `index` as idle, waking a thread waiting for one. */
+  release(index: number): void {
+    Atomics.store(this.buffer, WORKERS + index, IDLE);
+    this.signal();
+  }
+
+  /**
+   * Marks the busy worker at `index` as crashed, waking a thread waiting for
+   * one so that it can be recovered by a call to {@link claim} that passes
+   * `recover`.
+   */
+  markCrashed(index: number): void {
+    Atomics.compareExchange(this.buffer, WORKERS + index, BUSY, CRASHED);
+    this.signal();
+  }
+
+  /**
+   * Closes the queue.
+   *
+   * This will cause any outstanding calls to {@link claim} on any thread to
+   * throw an error.
+   */
+  close(): void {
+    if (Atomics.compareExchange(this.buffer, CLOSED, 0, 1) === 0) {
+      this.signal();
+    }
+  }
+
+  /** Wakes any threads waiting for this queue's state to change. */
+  private signal(): void {
+    Atomics.add(this.buffer, SIGNAL, 1);
+    Atomics.notify(this.buffer, SIGNAL);
+  }
+}
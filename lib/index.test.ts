@@ -2,11 +2,44 @@
 // MIT-style license that can be found in the LICENSE file or at
 // https://opensource.org/licenses/MIT.
 
+import * as diagnosticsChannel from 'diagnostics_channel';
 import * as fs from 'fs';
 import * as p from 'path';
-import {MessagePort, Worker} from 'worker_threads';
-
-import {SyncMessagePort, TimeoutException} from './index';
+import {MessagePort, Worker, receiveMessageOnPort} from 'worker_threads';
+
+import {
+  AbortError,
+  CancellationToken,
+  ChannelClosedException,
+  DeadlockException,
+  HandshakeException,
+  MessageCodec,
+  PeerTerminatedException,
+  SequenceException,
+  SyncBroadcastChannel,
+  SyncCondition,
+  SyncMessagePort,
+  SyncMessagePortInterceptor,
+  SyncMutex,
+  SyncReadable,
+  SyncRpcClient,
+  SyncRpcServer,
+  SyncSemaphore,
+  SyncSharedMap,
+  SyncWorkerPool,
+  SyncWritable,
+  TimeoutException,
+  TraceRecord,
+  createTracer,
+  jsonCodec,
+  makeSync,
+  v8Codec,
+} from './index';
+
+/** Options that let workers load this package's TypeScript sources. */
+const workerOptions = {
+  execArgv: ['--require', require.resolve('ts-node/register/transpile-only')],
+};
 
 describe('SyncMessagePort', () => {
   describe('sends a message', () => {
@@ -341,95 +374,2571 @@ describe('SyncMessagePort', () => {
     });
   });
 
-  describe('close()', () => {
-    it('closing one port closes the other', async () => {
+  describe('receiveMessageAsync()', () => {
+    it('resolves with a message that is already available', async () => {
       const channel = SyncMessagePort.createChannel();
       const port1 = new SyncMessagePort(channel.port1);
       const port2 = new SyncMessagePort(channel.port2);
 
+      port1.postMessage('hi there!');
+      await expect(port2.receiveMessageAsync()).resolves.toEqual('hi there!');
       port1.close();
+    });
 
-      // Should resolve.
-      await new Promise(resolve => port2.once('close', resolve));
+    it('resolves with a message sent later', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      spawnWorker(
+        `
+          setTimeout(() => {
+            port.postMessage('done!');
+            port.close();
+          }, 100);
+        `,
+        channel.port2,
+      );
+
+      await expect(port.receiveMessageAsync()).resolves.toEqual('done!');
+      await expect(port.receiveMessageAsync()).rejects.toThrow();
     });
 
-    it('receiveMessage() drains multiple messages after a port closes', () => {
+    it('interleaves with synchronous receives', async () => {
       const channel = SyncMessagePort.createChannel();
       const port1 = new SyncMessagePort(channel.port1);
       const port2 = new SyncMessagePort(channel.port2);
 
-      port1.postMessage('first');
-      port1.postMessage('second');
+      const first = port2.receiveMessageAsync();
+      const second = port2.receiveMessageAsync();
+      port1.postMessage('message1');
+      expect(port2.receiveMessage()).toEqual('message1');
+      port1.postMessage('message2');
+      port1.postMessage('message3');
+      expect(port2.receiveMessageIfAvailable()?.message).toEqual('message2');
+      await expect(first).resolves.toEqual('message3');
+
+      port1.postMessage('message4');
+      await expect(second).resolves.toEqual('message4');
       port1.close();
+    });
 
-      expect(port2.receiveMessage()).toEqual('first');
-      expect(port2.receiveMessage()).toEqual('second');
-      expect(() => port2.receiveMessage()).toThrow();
+    it('returns timeoutValue if it times out', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+      await expect(
+        port.receiveMessageAsync({timeout: 10, timeoutValue: 'timed out'}),
+      ).resolves.toBe('timed out');
+      await expect(port.receiveMessageAsync({timeout: 0})).rejects.toThrow(
+        TimeoutException,
+      );
+      port.close();
     });
 
-    it("receiveMessage() throws an error for a port that's already closed", () => {
+    it('returns closedValue if the channel is closed', async () => {
       const channel = SyncMessagePort.createChannel();
       const port1 = new SyncMessagePort(channel.port1);
       const port2 = new SyncMessagePort(channel.port2);
 
+      const promise = port2.receiveMessageAsync({closedValue: 'closed'});
       port1.close();
-      expect(() => port1.receiveMessage()).toThrow();
-      expect(() => port2.receiveMessage()).toThrow();
+      await expect(promise).resolves.toBe('closed');
     });
 
-    it('receiveMessage() throws an error when a port closes', () => {
+    it('iterates over messages until the channel closes', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      spawnWorker(
+        `
+          port.postMessage('message1');
+          setTimeout(() => {
+            port.postMessage('message2');
+            port.close();
+          }, 100);
+        `,
+        channel.port2,
+      );
+
+      const messages = [];
+      for await (const message of port) {
+        messages.push(message);
+      }
+      expect(messages).toEqual(['message1', 'message2']);
+    });
+  });
+
+  describe('with a filter', () => {
+    it('buffers non-matching messages for later receives', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('progress1');
+      port1.postMessage('progress2');
+      port1.postMessage('result');
+      port1.postMessage('progress3');
+      expect(port2.receiveMatching(message => message === 'result')).toEqual(
+        'result',
+      );
+      expect(port2.receiveMessage()).toEqual('progress1');
+      expect(port2.receiveMessageIfAvailable()?.message).toEqual('progress2');
+      expect(port2.receiveMessage()).toEqual('progress3');
+      port1.close();
+    });
+
+    it('receives a matching message that was already buffered', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage(1);
+      port1.postMessage(2);
+      port1.postMessage(3);
+      expect(port2.receiveMessage({filter: message => message === 3})).toBe(3);
+      expect(port2.receiveMessage({filter: message => message === 2})).toBe(2);
+      expect(port2.receiveMessage()).toBe(1);
+      port1.close();
+    });
+
+    it('waits for a matching message from a worker', () => {
       const channel = SyncMessagePort.createChannel();
       const port = new SyncMessagePort(channel.port1);
 
       spawnWorker(
         `
+          port.postMessage('progress');
           setTimeout(() => {
+            port.postMessage('result');
             port.close();
           }, 100);
         `,
         channel.port2,
       );
 
+      expect(port.receiveMatching(message => message === 'result')).toEqual(
+        'result',
+      );
+      expect(port.receiveMessage()).toEqual('progress');
       expect(() => port.receiveMessage()).toThrow();
     });
 
-    it(
-      "receiveMessage() returns option.closedValue for a port that's " +
-        'already closed',
-      () => {
-        const channel = SyncMessagePort.createChannel();
+    it('times out without a matching message', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('progress');
+      expect(
+        port2.receiveMatching(message => message === 'result', {
+          timeout: 0,
+          timeoutValue: 'timed out',
+        }),
+      ).toBe('timed out');
+      expect(port2.receiveMessage()).toEqual('progress');
+      port1.close();
+    });
+
+    it('returns closedValue without a matching message', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('progress');
+      port1.close();
+      expect(
+        port2.receiveMatching(message => message === 'result', {
+          closedValue: 'closed',
+        }),
+      ).toBe('closed');
+      expect(port2.receiveMessage()).toEqual('progress');
+    });
+
+    it('delivers buffered messages to listeners in order', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('progress1');
+      port1.postMessage('result');
+      expect(port2.receiveMatching(message => message === 'result')).toEqual(
+        'result',
+      );
+      port1.postMessage('progress2');
+
+      const messages: unknown[] = [];
+      await new Promise<void>(resolve =>
+        port2.on('message', message => {
+          messages.push(message);
+          if (messages.length === 2) resolve();
+        }),
+      );
+      expect(messages).toEqual(['progress1', 'progress2']);
+      port1.close();
+    });
+
+    it('works with receiveMessageAsync()', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('progress');
+      port1.postMessage('result');
+      await expect(
+        port2.receiveMessageAsync({filter: message => message === 'result'}),
+      ).resolves.toEqual('result');
+      await expect(port2.receiveMessageAsync()).resolves.toEqual('progress');
+      port1.close();
+    });
+  });
+
+  describe('sub-channels', () => {
+    it('are independent of the parent channel and each other', () => {
+      const channel = SyncMessagePort.createChannel({maxSubchannels: 2});
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('parent');
+      port1.openSubchannel('progress').postMessage('progress');
+      port1.openSubchannel('logs').postMessage('log');
+      expect(port2.openSubchannel('logs').receiveMessage()).toEqual('log');
+      expect(port2.openSubchannel('progress').receiveMessage()).toEqual(
+        'progress',
+      );
+      expect(port2.receiveMessage()).toEqual('parent');
+      expect(
+        port2.openSubchannel('logs').receiveMessage({
+          timeout: 0,
+          timeoutValue: 'timed out',
+        }),
+      ).toBe('timed out');
+      port1.close();
+    });
+
+    it('buffers messages for the parent channel', () => {
+      const channel = SyncMessagePort.createChannel({maxSubchannels: 1});
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('parent1');
+      port1.openSubchannel('logs').postMessage('log1');
+      port1.postMessage('parent2');
+      port1.openSubchannel('logs').postMessage('log2');
+      const logs = port2.openSubchannel('logs');
+      expect(logs.receiveMessage()).toEqual('log1');
+      expect(port2.receiveMessageIfAvailable()).toEqual({message: 'parent1'});
+      expect(logs.receiveMessageIfAvailable()).toEqual({message: 'log2'});
+      expect(port2.receiveMessage()).toEqual('parent2');
+      expect(port2.pendingCount).toBe(0);
+      port1.close();
+    });
+
+    it("don't receive messages that look like sub-channel messages", () => {
+      const messages = [
+        {__syncMessagePortSubchannel__: 0, data: 'message'},
+        {__syncMessagePort__: 'subchannel', slot: 0, data: 'message'},
+        {__syncMessagePort__: 'escaped', data: 'message'},
+      ];
+      for (const options of [{}, {maxSubchannels: 2}]) {
+        const channel = SyncMessagePort.createChannel(options);
         const port1 = new SyncMessagePort(channel.port1);
         const port2 = new SyncMessagePort(channel.port2);
 
+        for (const message of messages) {
+          port1.postMessage(message);
+          expect(
+            port2.receiveMessage({timeout: 500, timeoutValue: 'timed out'}),
+          ).toEqual(message);
+        }
         port1.close();
-        expect(port1.receiveMessage({closedValue: 'closed'})).toBe('closed');
-        expect(port2.receiveMessage({closedValue: 'closed'})).toBe('closed');
-      },
-    );
+      }
+    });
 
-    it('receiveMessage() throws an error when a port closes', () => {
+    it('returns the same sub-channel when opened twice', () => {
+      const channel = SyncMessagePort.createChannel({maxSubchannels: 1});
+      const port = new SyncMessagePort(channel.port1);
+      expect(port.openSubchannel('logs')).toBe(port.openSubchannel('logs'));
+      port.close();
+    });
+
+    it('throws an error once maxSubchannels are open', () => {
+      const channel = SyncMessagePort.createChannel({maxSubchannels: 1});
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+      port1.openSubchannel('logs');
+      expect(() => port2.openSubchannel('other')).toThrow(
+        'no room for a sub-channel named "other"',
+      );
+      port2.openSubchannel('logs');
+      port1.close();
+    });
+
+    it('throws an error without maxSubchannels', () => {
       const channel = SyncMessagePort.createChannel();
       const port = new SyncMessagePort(channel.port1);
+      expect(() => port.openSubchannel('logs')).toThrow(
+        "This SyncMessagePort's channel wasn't created with maxSubchannels.",
+      );
+      port.close();
+    });
+
+    it('can be closed independently of the parent channel', () => {
+      const channel = SyncMessagePort.createChannel({maxSubchannels: 1});
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      const logs = port1.openSubchannel('logs');
+      logs.postMessage('log');
+      logs.close();
+      expect(logs.isClosed).toBe(true);
+      expect(port2.openSubchannel('logs').receiveMessage()).toEqual('log');
+      expect(() => port2.openSubchannel('logs').receiveMessage()).toThrow(
+        ChannelClosedException,
+      );
+
+      port1.postMessage('parent');
+      expect(port2.receiveMessage()).toEqual('parent');
+      port1.close();
+    });
+
+    it('are closed when the parent closes', () => {
+      const channel = SyncMessagePort.createChannel({maxSubchannels: 2});
+      const port = new SyncMessagePort(channel.port1);
+      const progress = port.openSubchannel('progress');
+
+      spawnWorker(
+        `
+          port.openSubchannel('logs').postMessage('log');
+          setTimeout(() => port.close(), 100);
+        `,
+        channel.port2,
+      );
+
+      expect(progress.receiveMessage({closedValue: 'closed'})).toBe('closed');
+      expect(port.openSubchannel('logs').receiveMessage()).toEqual('log');
+      expect(() => port.openSubchannel('logs').receiveMessage()).toThrow();
+      expect(() => port.receiveMessage()).toThrow();
+    });
+  });
+
+  describe('select()', () => {
+    it('returns a message that is already available', () => {
+      const selectNotifier = new SharedArrayBuffer(4);
+      const channel1 = SyncMessagePort.createChannel({selectNotifier});
+      const channel2 = SyncMessagePort.createChannel({selectNotifier});
+      const port1 = new SyncMessagePort(channel1.port1);
+      const port2 = new SyncMessagePort(channel2.port1);
+      const remote2 = new SyncMessagePort(channel2.port2);
+
+      remote2.postMessage('message');
+      expect(SyncMessagePort.select([port1, port2])).toEqual({
+        port: port2,
+        closed: false,
+        message: 'message',
+      });
+      port1.close();
+      port2.close();
+    });
+
+    it('waits for a message on any port', () => {
+      const selectNotifier = new SharedArrayBuffer(4);
+      const channel1 = SyncMessagePort.createChannel({selectNotifier});
+      const channel2 = SyncMessagePort.createChannel({selectNotifier});
+      const port1 = new SyncMessagePort(channel1.port1);
+      const port2 = new SyncMessagePort(channel2.port1);
 
       spawnWorker(
         `
           setTimeout(() => {
+            port.postMessage('from worker');
             port.close();
           }, 100);
         `,
+        channel2.port2,
+      );
+
+      const result = SyncMessagePort.select([port1, port2]);
+      expect(result.port).toBe(port2);
+      expect(result).toMatchObject({message: 'from worker'});
+      expect(SyncMessagePort.select([port1, port2])).toEqual({
+        port: port2,
+        closed: true,
+      });
+      port1.close();
+    });
+
+    it('throws a TimeoutException', () => {
+      const selectNotifier = new SharedArrayBuffer(4);
+      const channel1 = SyncMessagePort.createChannel({selectNotifier});
+      const channel2 = SyncMessagePort.createChannel({selectNotifier});
+      const port1 = new SyncMessagePort(channel1.port1);
+      const port2 = new SyncMessagePort(channel2.port1);
+
+      expect(() =>
+        SyncMessagePort.select([port1, port2], {timeout: 0}),
+      ).toThrow(TimeoutException);
+      port1.close();
+      port2.close();
+    });
+
+    it('requires a selectNotifier for multiple ports', () => {
+      const channel1 = SyncMessagePort.createChannel();
+      const channel2 = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel1.port1);
+      const port2 = new SyncMessagePort(channel2.port1);
+
+      expect(() => SyncMessagePort.select([port1, port2])).toThrow();
+      expect(() => SyncMessagePort.select([port1], {timeout: 0})).toThrow(
+        TimeoutException,
+      );
+      port1.close();
+      port2.close();
+    });
+  });
+
+  describe('postError()', () => {
+    it('throws a built-in error type from receiveMessage()', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postError(new TypeError('bad type'));
+      let error: unknown;
+      try {
+        port2.receiveMessage();
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).toBeInstanceOf(TypeError);
+      expect((error as Error).message).toEqual('bad type');
+      expect((error as Error).stack).toMatch(/at <thread \d+>$/);
+      port1.close();
+    });
+
+    it('reconstructs registered types and cause chains', () => {
+      class CustomError extends Error {
+        constructor(
+          message: string,
+          readonly code: number,
+        ) {
+          super(message);
+          this.name = 'CustomError';
+        }
+      }
+
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+      for (const port of [port1, port2]) {
+        port.registerErrorType(
+          CustomError,
+          error => ({message: error.message, code: error.code}),
+          data => {
+            const {message, code} = data as {message: string; code: number};
+            return new CustomError(message, code);
+          },
+        );
+      }
+
+      const sent = new CustomError('outer', 42);
+      Object.assign(sent, {cause: new RangeError('inner')});
+      port1.postError(sent);
+      let error: unknown;
+      try {
+        port2.receiveMessage();
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).toBeInstanceOf(CustomError);
+      expect((error as CustomError).code).toBe(42);
+      const cause = (error as {cause?: unknown}).cause;
+      expect(cause).toBeInstanceOf(RangeError);
+      expect((cause as Error).message).toEqual('inner');
+      port1.close();
+    });
+
+    it('sends cause chains with cycles', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      const outer = new Error('outer');
+      const inner = new Error('inner');
+      Object.assign(inner, {cause: outer});
+      Object.assign(outer, {cause: inner});
+      port1.postError(outer);
+      let error: unknown;
+      try {
+        port2.receiveMessage();
+      } catch (caught) {
+        error = caught;
+      }
+      expect((error as Error).message).toEqual('outer');
+      const cause = (error as {cause?: unknown}).cause as Error;
+      expect(cause.message).toEqual('inner');
+      expect('cause' in cause).toBe(false);
+      port1.close();
+    });
+
+    it("doesn't throw messages that look like errors", () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      const messages = [
+        {__syncMessagePortError__: {name: 'Error', message: 'oh no'}},
+        {
+          __syncMessagePort__: 'error',
+          error: {name: 'Error', message: 'oh no'},
+        },
+      ];
+      port1.postMessages(messages);
+      expect(port2.receiveMessages()).toEqual(messages);
+      port1.close();
+    });
+
+    it("doesn't treat Object.prototype members as built-in types", () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      const sent = new Error('oh no');
+      sent.name = 'constructor';
+      port1.postError(sent);
+      let error: unknown;
+      try {
+        port2.receiveMessage();
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).toBeInstanceOf(Error);
+      expect((error as Error).name).toEqual('constructor');
+      expect((error as Error).message).toEqual('oh no');
+      port1.close();
+    });
+
+    it('is received in order with other messages', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      spawnWorker(
+        `
+          port.postMessage('before');
+          port.postError(new Error('oh no'));
+          port.postMessage('after');
+          port.close();
+        `,
         channel.port2,
       );
 
-      expect(port.receiveMessage({closedValue: 'closed'})).toBe('closed');
+      expect(port.receiveMessage()).toEqual('before');
+      expect(() => port.receiveMessage()).toThrow('oh no');
+      expect(port.receiveMessage()).toEqual('after');
+    });
+
+    it('is emitted as an error event to listeners', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postError(new Error('oh no'));
+      const promise = new Promise(resolve => port2.once('error', resolve));
+      port2.on('message', () => {});
+      await expect(promise).resolves.toMatchObject({message: 'oh no'});
+      port1.close();
     });
   });
-});
+
+  describe('with a codec', () => {
+    it('jsonCodec normalizes messages as JSON', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1, {codec: jsonCodec});
+      const port2 = new SyncMessagePort(channel.port2, {codec: jsonCodec});
+
+      port1.postMessage({date: {toJSON: () => 'today'}, list: [1, 2]});
+      port1.postMessage(undefined);
+      expect(port2.receiveMessage()).toEqual({date: 'today', list: [1, 2]});
+      expect(port2.receiveMessageIfAvailable()).toEqual({message: undefined});
+      port1.close();
+    });
+
+    it('v8Codec transfers serialized messages', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1, {codec: v8Codec});
+      const port2 = new SyncMessagePort(channel.port2, {codec: v8Codec});
+
+      port1.postMessage({big: 12345678901234567890n});
+      expect(port2.receiveMessage()).toEqual({big: 12345678901234567890n});
+      port1.close();
+    });
+
+    it('transfers objects returned by the encoder', () => {
+      const codec: MessageCodec = {
+        encode: value => {
+          const data = new TextEncoder().encode(value as string);
+          return {data, transfer: [data.buffer]};
+        },
+        decode: data => new TextDecoder().decode(data as Uint8Array),
+      };
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1, {codec});
+      const port2 = new SyncMessagePort(channel.port2, {codec});
+
+      port1.postMessage('hi there!');
+      expect(port2.receiveMessage()).toEqual('hi there!');
+      port1.close();
+    });
+
+    it('decodes messages before filtering them', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1, {codec: jsonCodec});
+      const port2 = new SyncMessagePort(channel.port2, {codec: jsonCodec});
+
+      port1.postMessage({type: 'progress'});
+      port1.postMessage({type: 'result'});
+      expect(
+        port2.receiveMatching(
+          message => (message as {type: string}).type === 'result',
+        ),
+      ).toEqual({type: 'result'});
+      expect(port2.receiveMessage()).toEqual({type: 'progress'});
+      port1.close();
+    });
+
+    it('decodes messages sent to listeners', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1, {codec: jsonCodec});
+      const port2 = new SyncMessagePort(channel.port2, {codec: jsonCodec});
+
+      port1.postMessage({hi: 'there'});
+      const promise = new Promise(resolve => port2.once('message', resolve));
+      await expect(promise).resolves.toEqual({hi: 'there'});
+      port1.close();
+    });
+  });
+
+  describe('stats()', () => {
+    it('tracks messages sent, received, and pending', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('message1');
+      port1.postMessage('message2');
+      port1.postMessage('message3');
+      expect(port2.pendingCount).toBe(3);
+      port2.receiveMessage();
+      expect(port2.receiveMatching(message => message === 'message3')).toBe(
+        'message3',
+      );
+
+      expect(port1.stats()).toMatchObject({sent: 3, received: 0, pending: 0});
+      expect(port2.stats()).toMatchObject({sent: 0, received: 2, pending: 1});
+      port1.close();
+    });
+
+    it('tracks timeouts and blocking time', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      port.receiveMessage({timeout: 20, timeoutValue: undefined});
+      port.receiveMessage({timeout: 0, timeoutValue: undefined});
+      const stats = port.stats();
+      expect(stats.timeouts).toBe(2);
+      expect(stats.maxBlockingTime).toBeGreaterThanOrEqual(15);
+      expect(stats.totalBlockingTime).toBeGreaterThanOrEqual(
+        stats.maxBlockingTime,
+      );
+      expect(stats.lastBlockingTime).toBeLessThan(stats.maxBlockingTime);
+      port.close();
+    });
+
+    it('tracks the closed state', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('message');
+      expect(port2.isClosed).toBe(false);
+      port1.close();
+      expect(port2.isClosed).toBe(true);
+      expect(port2.stats()).toMatchObject({closed: true, pending: 1});
+    });
+  });
+
+  describe('with deadlock detection', () => {
+    it('throws when both ports wait for a message', async () => {
+      const channel = SyncMessagePort.createChannel({detectDeadlocks: true});
+      const port = new SyncMessagePort(channel.port1);
+
+      const worker = spawnWorker(
+        `
+          try {
+            port.receiveMessage();
+          } catch (error) {
+            port.postMessage(error instanceof lib.DeadlockException);
+          }
+          port.close();
+        `,
+        channel.port2,
+      );
+
+      expect(() => port.receiveMessage()).toThrow(DeadlockException);
+      expect(port.receiveMessage()).toBe(true);
+      await new Promise(resolve => worker.once('exit', resolve));
+    });
+
+    it("doesn't throw when the other port sends a message", async () => {
+      const channel = SyncMessagePort.createChannel({detectDeadlocks: true});
+      const port = new SyncMessagePort(channel.port1);
+
+      const worker = spawnWorker(
+        `
+          Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 50);
+          port.postMessage('message');
+          port.close();
+        `,
+        channel.port2,
+      );
+
+      expect(port.receiveMessage()).toBe('message');
+      await new Promise(resolve => worker.once('exit', resolve));
+    });
+
+    it("doesn't throw when waiting with a timeout", async () => {
+      const channel = SyncMessagePort.createChannel({detectDeadlocks: true});
+      const port = new SyncMessagePort(channel.port1);
+
+      const worker = spawnWorker(
+        `
+          port.postMessage('ready');
+          port.postMessage(port.receiveMessage());
+          port.close();
+        `,
+        channel.port2,
+      );
+
+      expect(port.receiveMessage()).toBe('ready');
+      expect(port.receiveMessage({timeout: 100, timeoutValue: 'timeout'})).toBe(
+        'timeout',
+      );
+      port.postMessage('echo');
+      expect(port.receiveMessage()).toBe('echo');
+      await new Promise(resolve => worker.once('exit', resolve));
+    });
+  });
+
+  describe('when the other thread exits', () => {
+    it('throws a PeerTerminatedException once messages are drained', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      spawnWorker(
+        `
+          port.postMessage('message');
+          process.exit(3);
+        `,
+        channel.port2,
+      );
+
+      expect(port.receiveMessage()).toBe('message');
+      let error: unknown;
+      try {
+        port.receiveMessage();
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).toBeInstanceOf(PeerTerminatedException);
+      expect((error as PeerTerminatedException).exitCode).toBe(3);
+    });
+
+    it('returns closedValue if passed', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      spawnWorker('process.exit(0);', channel.port2);
+
+      expect(port.receiveMessage({closedValue: 'closed'})).toBe('closed');
+    });
+
+    it('throws a plain error if the other port was closed first', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      const worker = spawnWorker(
+        `
+          port.close();
+          process.exit(3);
+        `,
+        channel.port2,
+      );
+      port.attachWorker(worker);
+      await new Promise(resolve => worker.once('exit', resolve));
+
+      expect(() => port.receiveMessage()).toThrow(
+        "The SyncMessagePort's channel is closed.",
+      );
+    });
+
+    it('detects an attached worker being terminated', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      const worker = spawnWorker(
+        `
+          port.postMessage('ready');
+          port.receiveMessage();
+        `,
+        channel.port2,
+      );
+      port.attachWorker(worker);
+
+      expect(port.receiveMessage()).toBe('ready');
+      const promise = port.receiveMessageAsync();
+      await worker.terminate();
+      await expect(promise).rejects.toThrow(PeerTerminatedException);
+      expect(port.isClosed).toBe(true);
+    });
+  });
+
+  describe('with a cancellation token', () => {
+    it('throws an AbortError when cancelled from another thread', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+      const token = new CancellationToken();
+
+      const worker = spawnWorker(
+        `
+          const token = new lib.CancellationToken(port.receiveMessage());
+          Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 50);
+          token.cancel();
+        `,
+        channel.port2,
+      );
+
+      port.postMessage(token.buffer);
+      expect(() => port.receiveMessage({signal: token})).toThrow(AbortError);
+      expect(token.isCancelled).toBe(true);
+      await new Promise(resolve => worker.once('exit', resolve));
+    });
+
+    it('receives a message sent before the token is cancelled', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      const worker = spawnWorker(
+        `
+          Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 50);
+          port.postMessage('message');
+        `,
+        channel.port2,
+      );
+
+      expect(port.receiveMessage({signal: new CancellationToken()})).toBe(
+        'message',
+      );
+      await new Promise(resolve => worker.once('exit', resolve));
+    });
+
+    it('receives messages when tokens are reused', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      const worker = spawnWorker(
+        `
+          for (let i = 1; i <= 3; i++) {
+            Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 50);
+            port.postMessage(i);
+          }
+        `,
+        channel.port2,
+      );
+
+      const token = new CancellationToken();
+      expect(port.receiveMessage({signal: token})).toBe(1);
+      expect(port.receiveMessage({signal: token})).toBe(2);
+      expect(port.receiveMessage({signal: new CancellationToken()})).toBe(3);
+      await new Promise(resolve => worker.once('exit', resolve));
+    });
+
+    it('throws immediately if the token is already cancelled', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+      const token = new CancellationToken();
+
+      token.cancel();
+      expect(() => port.receiveMessage({signal: token})).toThrow(AbortError);
+      port.close();
+    });
+
+    it('still times out', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      expect(
+        port.receiveMessage({
+          signal: new CancellationToken(),
+          timeout: 10,
+          timeoutValue: 'timeout',
+        }),
+      ).toBe('timeout');
+      port.close();
+    });
+
+    it('can be created from an AbortSignal', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+      const controller = new AbortController();
+
+      const promise = port.receiveMessageAsync({
+        signal: CancellationToken.fromAbortSignal(controller.signal),
+      });
+      controller.abort();
+      await expect(promise).rejects.toThrow(AbortError);
+      port.close();
+    });
+  });
+
+  describe('use()', () => {
+    it('observes sent and received messages', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+      const events: unknown[] = [];
+      const interceptor: SyncMessagePortInterceptor = {
+        onSend: message => events.push(['send', message]),
+        onReceive: message => events.push(['receive', message]),
+        onClose: () => events.push(['close']),
+      };
+      port1.use(interceptor);
+      port2.use(interceptor);
+
+      port1.postMessage('message1');
+      port1.postMessage('message2');
+      port1.postMessage('message3');
+      port2.receiveMessage();
+      port2.receiveMessageIfAvailable();
+      await new Promise(resolve => port2.once('message', resolve));
+      port1.close();
+
+      expect(events).toEqual([
+        ['send', 'message1'],
+        ['send', 'message2'],
+        ['send', 'message3'],
+        ['receive', 'message1'],
+        ['receive', 'message2'],
+        ['receive', 'message3'],
+        ['close'],
+      ]);
+    });
+
+    it('reports blocking time', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+      const blockingTimes: number[] = [];
+      port2.use({
+        onReceive: (_, info) => blockingTimes.push(info.blockingTime),
+      });
+
+      port2.receiveMessage({timeout: 20, timeoutValue: undefined});
+      port1.postMessage('message1');
+      port2.receiveMessage();
+      port1.postMessage('message2');
+      port2.receiveMessage();
+
+      expect(blockingTimes[0]).toBeGreaterThanOrEqual(15);
+      expect(blockingTimes[1]).toBeLessThan(blockingTimes[0]);
+      port1.close();
+    });
+
+    it('publishes trace records with createTracer()', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+      port1.use(createTracer('port1'));
+      port2.use(createTracer('port2'));
+
+      const records: TraceRecord[] = [];
+      function subscriber(record: unknown): void {
+        records.push(record as TraceRecord);
+      }
+      diagnosticsChannel.subscribe('sync-message-port', subscriber);
+      try {
+        port1.postMessage('message');
+        port2.receiveMessage();
+        port1.close();
+      } finally {
+        diagnosticsChannel.unsubscribe('sync-message-port', subscriber);
+      }
+
+      expect(records).toMatchObject([
+        {direction: 'send', label: 'port1', size: expect.any(Number)},
+        {direction: 'receive', label: 'port2', size: expect.any(Number)},
+        {direction: 'close', label: 'port1', size: undefined},
+      ]);
+      for (const record of records) {
+        expect(record.threadId).toBe(0);
+        expect(record.timestamp).toBeGreaterThan(0);
+        expect(record.blockingTime).toBeGreaterThanOrEqual(0);
+      }
+    });
+  });
+
+  describe('sequence numbers', () => {
+    it('are returned with withMetadata', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('message1');
+      port1.postError(new Error('oh no'));
+      port1.postMessage('message2');
+      expect(port2.receiveMessage({withMetadata: true})).toEqual({
+        message: 'message1',
+        sequence: 0,
+      });
+      expect(() => port2.receiveMessage({withMetadata: true})).toThrow('oh no');
+      expect(port2.receiveMessage({withMetadata: true})).toEqual({
+        message: 'message2',
+        sequence: 2,
+      });
+      port1.close();
+    });
+
+    it('are passed to message listeners', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('message1');
+      port1.postMessage('message2');
+      expect(port2.receiveMessage()).toBe('message1');
+      const [message, metadata] = await new Promise<unknown[]>(resolve =>
+        port2.once('message', (...args) => resolve(args)),
+      );
+      expect(message).toBe('message2');
+      expect(metadata).toEqual({sequence: 1});
+      port1.close();
+    });
+
+    it('are preserved for filtered messages', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('skipped');
+      port1.postMessage('matched');
+      expect(
+        port2.receiveMessage({
+          filter: message => message === 'matched',
+          withMetadata: true,
+        }),
+      ).toEqual({message: 'matched', sequence: 1});
+      expect(port2.receiveMessage({withMetadata: true})).toEqual({
+        message: 'skipped',
+        sequence: 0,
+      });
+      port1.close();
+    });
+
+    describe('with strict ordering', () => {
+      it('receives messages in order', async () => {
+        const channel = SyncMessagePort.createChannel({strictOrdering: true});
+        const port1 = new SyncMessagePort(channel.port1);
+        const port2 = new SyncMessagePort(channel.port2);
+
+        port1.postMessage('message1');
+        port1.postMessage('message2');
+        port1.postMessage('message3');
+        expect(port2.receiveMessage({withMetadata: true})).toEqual({
+          message: 'message1',
+          sequence: 0,
+        });
+        expect(port2.receiveMessageIfAvailable()).toEqual({
+          message: 'message2',
+        });
+        expect(await port2.receiveMessageAsync({withMetadata: true})).toEqual({
+          message: 'message3',
+          sequence: 2,
+        });
+        port1.close();
+      });
+
+      it('throws if a message is lost', () => {
+        const channel = SyncMessagePort.createChannel({strictOrdering: true});
+        const port1 = new SyncMessagePort(channel.port1);
+        const port2 = new SyncMessagePort(channel.port2);
+
+        port1.postMessage('message1');
+        port1.postMessage('message2');
+        receiveMessageOnPort(channel.port2);
+        let error: unknown;
+        try {
+          port2.receiveMessage();
+        } catch (caught) {
+          error = caught;
+        }
+        expect(error).toBeInstanceOf(SequenceException);
+        expect(error).toMatchObject({expected: 0, actual: 1});
+        port1.close();
+      });
+
+      it('throws if a message is duplicated', () => {
+        const channel = SyncMessagePort.createChannel({strictOrdering: true});
+        const port1 = new SyncMessagePort(channel.port1);
+        const port2 = new SyncMessagePort(channel.port2);
+
+        port1.postMessage('message1');
+        expect(port2.receiveMessage()).toBe('message1');
+        channel.port1.postMessage({sequence: 0, data: 'message1'});
+        port1.postMessage('message2');
+        let error: unknown;
+        try {
+          port2.receiveMessage();
+        } catch (caught) {
+          error = caught;
+        }
+        expect(error).toBeInstanceOf(SequenceException);
+        expect(error).toMatchObject({expected: 1, actual: 0});
+        port1.close();
+      });
+
+      it("doesn't allow filters", () => {
+        const channel = SyncMessagePort.createChannel({strictOrdering: true});
+        const port1 = new SyncMessagePort(channel.port1);
+        const port2 = new SyncMessagePort(channel.port2);
+
+        port1.postMessage('message');
+        expect(() => port2.receiveMatching(() => true)).toThrow(
+          'strictOrdering',
+        );
+        port1.close();
+      });
+    });
+  });
+
+  describe('with a handshake', () => {
+    it('negotiates features', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1, {
+        protocol: 'test',
+        version: 1,
+        features: ['a', 'b'],
+      });
+      expect(port1.negotiatedFeatures).toBe(undefined);
+      const port2 = new SyncMessagePort(channel.port2, {
+        protocol: 'test',
+        version: 1,
+        features: ['b', 'c'],
+      });
+
+      expect(port1.negotiatedFeatures).toEqual(new Set(['b']));
+      expect(port2.negotiatedFeatures).toEqual(new Set(['b']));
+      port1.postMessage('message');
+      expect(port2.receiveMessage()).toBe('message');
+      port1.close();
+    });
+
+    it('throws on a protocol mismatch', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1, {protocol: 'one'});
+
+      expect(
+        () => new SyncMessagePort(channel.port2, {protocol: 'two'}),
+      ).toThrow(
+        new HandshakeException(
+          'This port uses protocol "two", but the other port uses protocol ' +
+            '"one".',
+        ),
+      );
+      expect(() => port1.receiveMessage()).toThrow(HandshakeException);
+    });
+
+    it('throws on a version mismatch', () => {
+      const channel = SyncMessagePort.createChannel();
+      new SyncMessagePort(channel.port1, {protocol: 'test', version: 1});
+
+      expect(
+        () =>
+          new SyncMessagePort(channel.port2, {protocol: 'test', version: 2}),
+      ).toThrow(
+        'This port uses version 2 of protocol "test", but the other port ' +
+          'uses version 1.',
+      );
+    });
+
+    it("throws if the other port doesn't specify a protocol", () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1, {protocol: 'test'});
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port2.postMessage('message');
+      expect(() => port1.receiveMessage()).toThrow(
+        'This port uses protocol "test", but the other port doesn\'t ' +
+          'specify a protocol.',
+      );
+      expect(port2.isClosed).toBe(true);
+    });
+  });
+
+  describe('batches', () => {
+    it('are sent and received in order', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessages(['message1', 'message2', 'message3']);
+      port1.postMessage('message4');
+      expect(port2.receiveMessages({max: 2})).toEqual(['message1', 'message2']);
+      expect(port2.receiveMessages()).toEqual(['message3', 'message4']);
+      expect(port2.pendingCount).toBe(0);
+      port1.close();
+    });
+
+    it('are received from a worker', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      spawnWorker(
+        `
+          setTimeout(() => {
+            port.postMessages([1, 2, 3]);
+            port.close();
+          }, 100);
+        `,
+        channel.port2,
+      );
+
+      expect(port.receiveMessages()).toEqual([1, 2, 3]);
+    });
+
+    it('send the messages before one that fails', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      expect(() => port1.postMessages([1, () => {}])).toThrow(
+        'could not be cloned',
+      );
+      port1.postMessage(2);
+      expect(port2.receiveMessages()).toEqual([1, 2]);
+      expect(port2.pendingCount).toBe(0);
+      port1.close();
+    });
+
+    it('end before a message sent with postError()', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('message1');
+      port1.postError(new Error('oh no'));
+      port1.postMessage('message2');
+      expect(port2.receiveMessages()).toEqual(['message1']);
+      expect(() => port2.receiveMessages()).toThrow('oh no');
+      expect(port2.receiveMessages()).toEqual(['message2']);
+      port1.close();
+    });
+
+    it('throw a TimeoutException if no message is available', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      expect(() => port.receiveMessages({timeout: 0})).toThrow(
+        TimeoutException,
+      );
+      expect(() => port.receiveMessages({max: 0})).toThrow(
+        'ReceiveMessagesOptions.max must be a positive integer.',
+      );
+      port.close();
+    });
+
+    it('are sent within the capacity', () => {
+      const channel = SyncMessagePort.createChannel({capacity: 2});
+      const port = new SyncMessagePort(channel.port1);
+
+      spawnWorker(
+        `
+          const received = [];
+          while (received.length < 10) {
+            received.push(...port.receiveMessages({max: 3}));
+          }
+          port.postMessage(received);
+          port.close();
+        `,
+        channel.port2,
+      );
+
+      const values = [...Array(10).keys()];
+      port.postMessages(values);
+      expect(port.receiveMessage()).toEqual(values);
+    });
+  });
+
+  describe('with a high priority', () => {
+    it('messages are received first', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('data1');
+      port1.postMessage('data2');
+      port1.postMessage('cancel', {priority: 'high'});
+      port1.postMessage('flush', {priority: 'high'});
+      expect(port2.receiveMessage()).toBe('cancel');
+      expect(port2.receiveMessageIfAvailable()).toEqual({message: 'flush'});
+      expect(port2.receiveMessages()).toEqual(['data1', 'data2']);
+      expect(port2.pendingCount).toBe(0);
+      port1.close();
+    });
+
+    it('messages are received first from a worker', () => {
+      const semaphore = new SyncSemaphore(SyncSemaphore.allocate(0));
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      spawnWorker(
+        `
+          const semaphore = new lib.SyncSemaphore(port.receiveMessage());
+          for (let i = 0; i < 100; i++) {
+            port.postMessage(i);
+          }
+          port.postError(new Error('cancelled'), {priority: 'high'});
+          semaphore.release();
+          port.close();
+        `,
+        channel.port2,
+      );
+
+      port.postMessage(semaphore.buffer);
+      semaphore.acquire();
+      expect(() => port.receiveMessage()).toThrow('cancelled');
+      expect(port.receiveMessage()).toBe(0);
+    });
+
+    it("messages don't wait for capacity", () => {
+      const channel = SyncMessagePort.createChannel({capacity: 1});
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('data');
+      expect(port1.tryPostMessage('cancel', {priority: 'high'})).toBe(true);
+      port1.postMessage('flush', {priority: 'high', timeout: 0});
+      expect(port2.receiveMessage()).toBe('cancel');
+      expect(port2.receiveMessage()).toBe('flush');
+      expect(port2.receiveMessage()).toBe('data');
+      port1.close();
+    });
+
+    it('messages are passed to message listeners', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('cancel', {priority: 'high'});
+      const [message, metadata] = await new Promise<unknown[]>(resolve =>
+        port2.once('message', (...args) => resolve(args)),
+      );
+      expect(message).toBe('cancel');
+      expect(metadata).toEqual({sequence: 0});
+      expect(port2.pendingCount).toBe(0);
+      port1.close();
+    });
+
+    it("isn't allowed with strict ordering", () => {
+      const channel = SyncMessagePort.createChannel({strictOrdering: true});
+      const port = new SyncMessagePort(channel.port1);
+
+      expect(() => port.postMessage('cancel', {priority: 'high'})).toThrow(
+        'PostMessageOptions.priority may not be used on a channel created ' +
+          'with strictOrdering.',
+      );
+      port.close();
+    });
+  });
+
+  describe('with a capacity', () => {
+    it('tryPostMessage() returns false once the capacity is reached', () => {
+      const channel = SyncMessagePort.createChannel({capacity: 2});
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      expect(port1.tryPostMessage('message1')).toBe(true);
+      expect(port1.tryPostMessage('message2')).toBe(true);
+      expect(port1.tryPostMessage('message3')).toBe(false);
+      expect(port2.receiveMessage()).toEqual('message1');
+      expect(port1.tryPostMessage('message3')).toBe(true);
+      expect(port2.receiveMessage()).toEqual('message2');
+      expect(port2.receiveMessage()).toEqual('message3');
+      port1.close();
+    });
+
+    it('postMessage() times out once the capacity is reached', () => {
+      const channel = SyncMessagePort.createChannel({capacity: 1});
+      const port = new SyncMessagePort(channel.port1);
+
+      port.postMessage('message1', {timeout: 0});
+      expect(() => port.postMessage('message2', {timeout: 0})).toThrow(
+        TimeoutException,
+      );
+      port.close();
+    });
+
+    it('postMessage() blocks until the other port receives', () => {
+      const channel = SyncMessagePort.createChannel({capacity: 1});
+      const port = new SyncMessagePort(channel.port1);
+
+      spawnWorker(
+        `
+          port.postMessage('ready');
+          setTimeout(() => {
+            for (let i = 0; i < 10; i++) {
+              port.postMessage(port.receiveMessage());
+            }
+            port.close();
+          }, 100);
+        `,
+        channel.port2,
+      );
+
+      expect(port.receiveMessage()).toEqual('ready');
+      port.postMessage(0);
+      for (let i = 1; i < 10; i++) {
+        port.postMessage(i);
+        expect(port.receiveMessage()).toEqual(i - 1);
+      }
+      expect(port.receiveMessage()).toEqual(9);
+    });
+
+    it("postMessage() doesn't block once the channel is closed", () => {
+      const channel = SyncMessagePort.createChannel({capacity: 1});
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('message1');
+      port2.close();
+      port1.postMessage('message2');
+    });
+  });
+
+  describe('byte messages', () => {
+    it('sends bytes through the ring buffer', () => {
+      const channel = SyncMessagePort.createChannel({byteBufferSize: 64});
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postBytes(new Uint8Array([1, 2, 3]));
+      port1.postBytes(new Uint8Array([4, 5, 6, 7, 8]));
+      expect(port2.receiveBytes()).toEqual(new Uint8Array([1, 2, 3]));
+      expect(port2.receiveBytes()).toEqual(new Uint8Array([4, 5, 6, 7, 8]));
+      port1.close();
+    });
+
+    it('wraps around the end of the ring buffer', () => {
+      const channel = SyncMessagePort.createChannel({byteBufferSize: 16});
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      for (let i = 0; i < 10; i++) {
+        port1.postBytes(new Uint8Array([i, i + 1, i + 2, i + 3, i + 4]));
+        expect(port2.receiveBytes()).toEqual(
+          new Uint8Array([i, i + 1, i + 2, i + 3, i + 4]),
+        );
+      }
+      port1.close();
+    });
+
+    it('falls back to the port for payloads that do not fit', () => {
+      const channel = SyncMessagePort.createChannel({byteBufferSize: 16});
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postBytes(new Uint8Array([1]));
+      port1.postBytes(new Uint8Array(100).fill(2));
+      port1.postBytes(new Uint8Array([3]));
+      expect(port2.receiveBytes()).toEqual(new Uint8Array([1]));
+      expect(port2.receiveBytes()).toEqual(new Uint8Array(100).fill(2));
+      expect(port2.receiveBytes()).toEqual(new Uint8Array([3]));
+      port1.close();
+    });
+
+    it("doesn't block when the ring buffer is full", () => {
+      const channel = SyncMessagePort.createChannel({byteBufferSize: 16});
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      for (let i = 1; i <= 4; i++) {
+        port1.postBytes(new Uint8Array(5).fill(i));
+      }
+      for (let i = 1; i <= 4; i++) {
+        expect(port2.receiveBytes()).toEqual(new Uint8Array(5).fill(i));
+      }
+      port1.postBytes(new Uint8Array([5]));
+      expect(port2.receiveBytes()).toEqual(new Uint8Array([5]));
+      port1.close();
+    });
+
+    it('is independent of postMessage()', () => {
+      const channel = SyncMessagePort.createChannel({byteBufferSize: 64});
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('message');
+      port1.postBytes(new Uint8Array([1]));
+      expect(port2.receiveBytes()).toEqual(new Uint8Array([1]));
+      expect(port2.receiveMessage()).toEqual('message');
+      port1.close();
+    });
+
+    it('receives bytes from a worker', () => {
+      const channel = SyncMessagePort.createChannel({byteBufferSize: 64});
+      const port = new SyncMessagePort(channel.port1);
+
+      spawnWorker(
+        `
+          setTimeout(() => {
+            port.postBytes(new Uint8Array([1, 2, 3]));
+            port.postBytes(new Uint8Array(1000).fill(4));
+            port.close();
+          }, 100);
+        `,
+        channel.port2,
+      );
+
+      expect(port.receiveBytes()).toEqual(new Uint8Array([1, 2, 3]));
+      expect(port.receiveBytes()).toEqual(new Uint8Array(1000).fill(4));
+      expect(port.receiveBytes({closedValue: 'closed'})).toBe('closed');
+    });
+
+    it('times out', () => {
+      const channel = SyncMessagePort.createChannel({byteBufferSize: 64});
+      const port = new SyncMessagePort(channel.port1);
+      expect(() => port.receiveBytes({timeout: 0})).toThrow(TimeoutException);
+      expect(port.receiveBytes({timeout: 0, timeoutValue: 'timed out'})).toBe(
+        'timed out',
+      );
+      port.close();
+    });
+
+    it('throws an error without a byte buffer', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+      expect(() => port.postBytes(new Uint8Array([1]))).toThrow();
+      expect(() => port.receiveBytes()).toThrow();
+      port.close();
+    });
+  });
+
+  describe('close()', () => {
+    it('closing one port closes the other', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.close();
+
+      // Should resolve.
+      await new Promise(resolve => port2.once('close', resolve));
+    });
+
+    it('receiveMessage() drains multiple messages after a port closes', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('first');
+      port1.postMessage('second');
+      port1.close();
+
+      expect(port2.receiveMessage()).toEqual('first');
+      expect(port2.receiveMessage()).toEqual('second');
+      expect(() => port2.receiveMessage()).toThrow();
+    });
+
+    it("receiveMessage() throws an error for a port that's already closed", () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.close();
+      expect(() => port1.receiveMessage()).toThrow();
+      expect(() => port2.receiveMessage()).toThrow();
+    });
+
+    it('receiveMessage() throws an error when a port closes', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      spawnWorker(
+        `
+          setTimeout(() => {
+            port.close();
+          }, 100);
+        `,
+        channel.port2,
+      );
+
+      expect(() => port.receiveMessage()).toThrow();
+    });
+
+    it(
+      "receiveMessage() returns option.closedValue for a port that's " +
+        'already closed',
+      () => {
+        const channel = SyncMessagePort.createChannel();
+        const port1 = new SyncMessagePort(channel.port1);
+        const port2 = new SyncMessagePort(channel.port2);
+
+        port1.close();
+        expect(port1.receiveMessage({closedValue: 'closed'})).toBe('closed');
+        expect(port2.receiveMessage({closedValue: 'closed'})).toBe('closed');
+      },
+    );
+
+    it('receiveMessage() throws an error when a port closes', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      spawnWorker(
+        `
+          setTimeout(() => {
+            port.close();
+          }, 100);
+        `,
+        channel.port2,
+      );
+
+      expect(port.receiveMessage({closedValue: 'closed'})).toBe('closed');
+    });
+
+    it('passes a reason to the other port', async () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+      const reason = new Promise(resolve => port2.once('close', resolve));
+
+      port1.close({code: 1});
+      let error: unknown;
+      try {
+        port2.receiveMessage();
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).toBeInstanceOf(ChannelClosedException);
+      expect((error as ChannelClosedException).reason).toEqual({code: 1});
+      expect(await reason).toEqual({code: 1});
+    });
+
+    it('throws a ChannelClosedException without a reason', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.close();
+      expect(() => port2.receiveMessage()).toThrow(ChannelClosedException);
+    });
+
+    it("stays open if the reason can't be cloned", () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      expect(() => port1.close(() => {})).toThrow('could not be cloned');
+      expect(port1.isClosed).toBe(false);
+      port1.postMessage('message');
+      expect(port2.receiveMessage()).toBe('message');
+
+      port1.close('done');
+      let error: unknown;
+      try {
+        port2.receiveMessage();
+      } catch (caught) {
+        error = caught;
+      }
+      expect((error as ChannelClosedException).reason).toBe('done');
+    });
+  });
+
+  describe('end()', () => {
+    it('allows the other port to reply', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port1 = new SyncMessagePort(channel.port1);
+      const port2 = new SyncMessagePort(channel.port2);
+
+      port1.postMessage('request');
+      port1.end('done');
+      expect(port2.receiveMessage()).toBe('request');
+      expect(port2.isClosed).toBe(true);
+      let error: unknown;
+      try {
+        port2.receiveMessage();
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).toBeInstanceOf(ChannelClosedException);
+      expect((error as ChannelClosedException).reason).toBe('done');
+
+      expect(port1.isClosed).toBe(false);
+      port2.postMessage('reply');
+      expect(port1.receiveMessage()).toBe('reply');
+      port2.close();
+      expect(port1.receiveMessage({closedValue: 'closed'})).toBe('closed');
+    });
+
+    it('wakes a receive on another thread', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      spawnWorker(
+        `
+          try {
+            port.receiveMessage();
+          } catch (error) {
+            port.postMessage(error.reason);
+          }
+          port.close();
+        `,
+        channel.port2,
+      );
+
+      port.end('goodbye');
+      expect(port.receiveMessage()).toBe('goodbye');
+    });
+
+    it("doesn't allow sending more messages", () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      port.end();
+      expect(() => port.postMessage('message')).toThrow(
+        "SyncMessagePort.postMessage() can't be called after " +
+          'SyncMessagePort.end().',
+      );
+      port.close();
+    });
+  });
+});
+
+describe('SyncRpcClient', () => {
+  it('returns the result of a remote call', () => {
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    spawnWorker(
+      `
+        new lib.SyncRpcServer(port, {
+          add: (a: number, b: number) => a + b,
+          later: (value: unknown) =>
+            new Promise(resolve => setTimeout(() => resolve(value), 100)),
+        });
+      `,
+      channel.port2,
+    );
+
+    const client = new SyncRpcClient(port);
+    expect(client.call('add', 1, 2)).toEqual(3);
+    expect(client.call('later', 'done!')).toEqual('done!');
+    port.close();
+  });
+
+  it('throws remote errors', () => {
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    spawnWorker(
+      `
+        new lib.SyncRpcServer(port, {
+          fail: (message: string) => {
+            throw new TypeError(message);
+          },
+          reject: () => Promise.reject('oh no'),
+        });
+      `,
+      channel.port2,
+    );
+
+    const client = new SyncRpcClient(port);
+    let error: unknown;
+    try {
+      client.call('fail', 'bad type');
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).name).toEqual('TypeError');
+    expect((error as Error).message).toEqual('bad type');
+    expect((error as Error).stack).toContain('bad type');
+
+    expect(() => client.call('reject')).toThrow('oh no');
+    expect(() => client.call('missing')).toThrow('Unknown RPC method');
+    port.close();
+  });
+
+  describe('with a timeout', () => {
+    it('throws a TimeoutException', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+      const client = new SyncRpcClient(port, {timeout: 0});
+      expect(() => client.call('anything')).toThrow(TimeoutException);
+      port.close();
+    });
+
+    it('returns timeoutValue', () => {
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+      const client = new SyncRpcClient(port);
+      expect(
+        client.callWithOptions(
+          {timeout: 0, timeoutValue: 'timed out'},
+          'anything',
+        ),
+      ).toBe('timed out');
+      port.close();
+    });
+  });
+
+  it('ignores responses to calls that timed out', () => {
+    const channel = SyncMessagePort.createChannel();
+    const port1 = new SyncMessagePort(channel.port1);
+    const port2 = new SyncMessagePort(channel.port2);
+    const client = new SyncRpcClient(port1, {timeout: 0});
+
+    expect(() => client.call('first')).toThrow(TimeoutException);
+    port2.postMessage({type: 'rpc-result', id: 0, result: 'stale'});
+    port2.postMessage({type: 'rpc-result', id: 1, result: 'fresh'});
+    expect(client.call('second')).toEqual('fresh');
+    port1.close();
+  });
+
+  it('buffers unrelated messages', () => {
+    const channel = SyncMessagePort.createChannel();
+    const port1 = new SyncMessagePort(channel.port1);
+    const port2 = new SyncMessagePort(channel.port2);
+    const client = new SyncRpcClient(port1, {timeout: 0});
+
+    port2.postMessage('unrelated');
+    port2.postMessage({type: 'rpc-result', id: 0, result: 'result'});
+    expect(client.call('method')).toEqual('result');
+    expect(port1.receiveMessage()).toEqual('unrelated');
+    port1.close();
+  });
+
+  it("throws an error for results that can't be sent", () => {
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    spawnWorker(
+      `
+        new lib.SyncRpcServer(port, {
+          uncloneable: () => () => {},
+          add: (a: number, b: number) => a + b,
+        });
+      `,
+      channel.port2,
+    );
+
+    const client = new SyncRpcClient(port);
+    expect(() => client.call('uncloneable')).toThrow('could not be cloned');
+    expect(client.call('add', 1, 2)).toEqual(3);
+    port.close();
+  });
+
+  it('returns closedValue if the channel closes', () => {
+    const channel = SyncMessagePort.createChannel();
+    const port1 = new SyncMessagePort(channel.port1);
+    const port2 = new SyncMessagePort(channel.port2);
+    const client = new SyncRpcClient(port1);
+
+    port2.close();
+    expect(client.callWithOptions({closedValue: 'closed'}, 'anything')).toBe(
+      'closed',
+    );
+    expect(() => client.call('anything')).toThrow();
+  });
+
+  it('server stops responding after close()', () => {
+    const channel = SyncMessagePort.createChannel();
+    const port1 = new SyncMessagePort(channel.port1);
+    const port2 = new SyncMessagePort(channel.port2);
+
+    const server = new SyncRpcServer(port2, {});
+    server.close();
+    expect(port2.listenerCount('message')).toBe(0);
+    port1.close();
+  });
+});
+
+describe('makeSync()', () => {
+  const options = {workerOptions};
+
+  it("returns an async export's resolved value", () => {
+    const add = makeSync<(a: number, b: number) => Promise<number>>(
+      writeModule('exports.add = async (a, b) => a + b;'),
+      'add',
+      options,
+    );
+    expect(add(1, 2)).toBe(3);
+  });
+
+  it("throws an async export's rejection", () => {
+    const fail = makeSync(
+      writeModule("exports.fail = async () => { throw new Error('oh no'); };"),
+      'fail',
+      options,
+    );
+    expect(() => fail()).toThrow('oh no');
+  });
+
+  it('shares a worker between exports of the same module', () => {
+    const module = writeModule(`
+      let count = 0;
+      exports.increment = async () => ++count;
+      exports.get = async () => count;
+    `);
+    const increment = makeSync(module, 'increment', options);
+    const get = makeSync(module, 'get', options);
+    increment();
+    increment();
+    expect(get()).toBe(2);
+  });
+
+  it('resolves relative paths against the working directory', () => {
+    const module = writeModule(`
+      let count = 0;
+      exports.increment = async () => ++count;
+    `);
+    const relative = `./${p.relative(process.cwd(), module)}`;
+    expect(makeSync(relative, 'increment', options)()).toBe(1);
+    expect(makeSync(module, 'increment', options)()).toBe(2);
+  });
+
+  it('throws an error if the module fails to load', () => {
+    const call = makeSync(
+      p.resolve('spec/sandbox/does-not-exist.js'),
+      'call',
+      options,
+    );
+    expect(() => call()).toThrow('Cannot find module');
+  });
+});
+
+describe('SyncWorkerPool', () => {
+  /** A module whose tasks exercise the pool. */
+  let module: string;
+  beforeAll(() => {
+    module = writeModule(`
+      module.exports = async task => {
+        if (task === 'crash') process.exit(7);
+        if (task === 'throw') throw new Error('task failed');
+        if (task === 'slow') {
+          await new Promise(resolve => setTimeout(resolve, 100));
+          return 'slow';
+        }
+        return task * 2;
+      };
+    `);
+  });
+
+  it('runs tasks on workers', () => {
+    const pool = new SyncWorkerPool(module, {size: 2, workerOptions});
+    expect(pool.run(1)).toBe(2);
+    expect(pool.run(2)).toBe(4);
+    expect(pool.run(3)).toBe(6);
+    pool.close();
+  });
+
+  it('throws errors thrown by tasks', () => {
+    const pool = new SyncWorkerPool(module, {size: 1, workerOptions});
+    expect(() => pool.run('throw')).toThrow('task failed');
+    expect(pool.run(1)).toBe(2);
+    pool.close();
+  });
+
+  it('replaces a worker that crashes', () => {
+    const pool = new SyncWorkerPool(module, {size: 1, workerOptions});
+    let error: unknown;
+    try {
+      pool.run('crash');
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(PeerTerminatedException);
+    expect((error as PeerTerminatedException).exitCode).toBe(7);
+    expect(pool.run(1)).toBe(2);
+    pool.close();
+  });
+
+  it('shares idle workers between threads', async () => {
+    const pool = new SyncWorkerPool(module, {size: 1, workerOptions});
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    const worker = spawnWorker(
+      `
+        const pool = new lib.SyncWorkerPool(port.receiveMessage());
+        port.postMessage('ready');
+        port.postMessage(pool.run(21));
+        pool.close();
+        port.close();
+      `,
+      channel.port2,
+    );
+
+    const handle = pool.share();
+    port.postMessage(handle, [handle]);
+    expect(port.receiveMessage()).toBe('ready');
+    expect(pool.run('slow')).toBe('slow');
+    expect(port.receiveMessage()).toBe(42);
+    await new Promise(resolve => worker.once('exit', resolve));
+    pool.close();
+  });
+
+  it('replaces a worker that crashes on another thread', async () => {
+    const pool = new SyncWorkerPool(module, {size: 1, workerOptions});
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    const worker = spawnWorker(
+      `
+        const pool = new lib.SyncWorkerPool(port.receiveMessage());
+        try {
+          pool.run('crash');
+        } catch (error) {
+          port.postMessage(error.exitCode);
+        }
+        pool.close();
+        port.close();
+      `,
+      channel.port2,
+    );
+
+    const handle = pool.share();
+    port.postMessage(handle, [handle]);
+    expect(port.receiveMessage()).toBe(7);
+    expect(pool.run(1)).toBe(2);
+    await new Promise(resolve => worker.once('exit', resolve));
+    pool.close();
+  });
+
+  it('throws an error once closed', async () => {
+    const pool = new SyncWorkerPool(module, {size: 1, workerOptions});
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    const worker = spawnWorker(
+      `
+        const pool = new lib.SyncWorkerPool(port.receiveMessage());
+        pool.close();
+        try {
+          pool.run(1);
+        } catch (error) {
+          port.postMessage(error.message);
+        }
+        port.close();
+      `,
+      channel.port2,
+    );
+
+    const handle = pool.share();
+    port.postMessage(handle, [handle]);
+    expect(port.receiveMessage()).toBe('The SyncWorkerPool is closed.');
+    await new Promise(resolve => worker.once('exit', resolve));
+    expect(pool.run(1)).toBe(2);
+
+    pool.close();
+    expect(() => pool.run(1)).toThrow('The SyncWorkerPool is closed.');
+  });
+});
+
+describe('SyncBroadcastChannel', () => {
+  it('sends each message to every subscriber', () => {
+    const broadcast = new SyncBroadcastChannel();
+    const subscriber1 = new SyncMessagePort(broadcast.subscribe());
+    const subscriber2 = new SyncMessagePort(broadcast.subscribe());
+
+    broadcast.postMessage('message1');
+    broadcast.postMessage('message2');
+    expect(subscriber1.receiveMessage()).toBe('message1');
+    expect(subscriber1.receiveMessage()).toBe('message2');
+    expect(subscriber2.receiveMessage()).toBe('message1');
+    expect(subscriber2.receiveMessage()).toBe('message2');
+    broadcast.close();
+  });
+
+  it('wakes a subscriber blocked on another thread', () => {
+    const broadcast = new SyncBroadcastChannel();
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    spawnWorker(
+      `
+        const subscriber = new SyncMessagePort(port.receiveMessage());
+        port.postMessage('subscribed');
+        port.postMessage(subscriber.receiveMessage());
+        port.close();
+      `,
+      channel.port2,
+    );
+
+    const subscription = broadcast.subscribe();
+    port.postMessage(subscription, [subscription]);
+    expect(port.receiveMessage()).toBe('subscribed');
+    broadcast.postMessage('message');
+    expect(port.receiveMessage()).toBe('message');
+    broadcast.close();
+  });
+
+  it('only sends messages posted after subscribing', () => {
+    const broadcast = new SyncBroadcastChannel();
+    const subscriber1 = new SyncMessagePort(broadcast.subscribe());
+    broadcast.postMessage('message1');
+    const subscriber2 = new SyncMessagePort(broadcast.subscribe());
+    broadcast.postMessage('message2');
+
+    expect(subscriber1.receiveMessage()).toBe('message1');
+    expect(subscriber2.receiveMessage()).toBe('message2');
+    broadcast.close();
+  });
+
+  it('removes subscribers that close their ports', () => {
+    const broadcast = new SyncBroadcastChannel();
+    const subscriber1 = new SyncMessagePort(broadcast.subscribe());
+    const subscriber2 = new SyncMessagePort(broadcast.subscribe());
+    expect(broadcast.subscriberCount).toBe(2);
+
+    subscriber1.close();
+    broadcast.postMessage('message');
+    expect(broadcast.subscriberCount).toBe(1);
+    expect(subscriber2.receiveMessage()).toBe('message');
+    broadcast.close();
+  });
+
+  it('closes every subscriber', () => {
+    const broadcast = new SyncBroadcastChannel();
+    const subscriber = new SyncMessagePort(broadcast.subscribe());
+
+    broadcast.postMessage('message');
+    broadcast.close();
+    expect(subscriber.receiveMessage()).toBe('message');
+    expect(() => subscriber.receiveMessage()).toThrow(
+      "The SyncMessagePort's channel is closed.",
+    );
+    expect(() => broadcast.subscribe()).toThrow(
+      'The SyncBroadcastChannel is closed.',
+    );
+  });
+});
+
+describe('SyncSharedMap', () => {
+  it('gets, sets, and deletes entries', () => {
+    const map = new SyncSharedMap();
+    expect(map.get('key')).toBe(undefined);
+    expect(map.has('key')).toBe(false);
+
+    map.set('key', {value: 1});
+    expect(map.get('key')).toEqual({value: 1});
+    expect(map.has('key')).toBe(true);
+
+    map.set('key', [2]);
+    expect(map.get('key')).toEqual([2]);
+
+    expect(map.delete('key')).toBe(true);
+    expect(map.get('key')).toBe(undefined);
+    expect(map.delete('key')).toBe(false);
+  });
+
+  it('shares entries between copies', () => {
+    const map1 = new SyncSharedMap();
+    const map2 = new SyncSharedMap(map1.buffer);
+
+    map1.set('key', 'value');
+    expect(map2.get('key')).toBe('value');
+    map2.delete('key');
+    expect(map1.has('key')).toBe(false);
+  });
+
+  it('reuses the space of overwritten entries', () => {
+    const map = new SyncSharedMap(new SharedArrayBuffer(128));
+    for (let i = 0; i < 100; i++) {
+      map.set('key', i);
+    }
+    expect(map.get('key')).toBe(99);
+  });
+
+  it("throws an error if an entry doesn't fit", () => {
+    const map = new SyncSharedMap(new SharedArrayBuffer(128));
+    map.set('key', 'value');
+    expect(() => map.set('other', 'x'.repeat(100))).toThrow(
+      'SyncSharedMap doesn\'t have room for an entry with key "other".',
+    );
+    expect(map.get('key')).toBe('value');
+    expect(map.has('other')).toBe(false);
+  });
+
+  describe('waitForKey()', () => {
+    it('returns an existing value immediately', () => {
+      const map = new SyncSharedMap();
+      map.set('key', 'value');
+      expect(map.waitForKey('key')).toBe('value');
+    });
+
+    it('blocks until another thread sets the key', () => {
+      const map = new SyncSharedMap();
+      const channel = SyncMessagePort.createChannel();
+      const port = new SyncMessagePort(channel.port1);
+
+      spawnWorker(
+        `
+          const map = new lib.SyncSharedMap(port.receiveMessage());
+          setTimeout(() => {
+            map.set('key', 'value');
+            port.close();
+          }, 100);
+        `,
+        channel.port2,
+      );
+
+      port.postMessage(map.buffer);
+      expect(map.waitForKey('key')).toBe('value');
+    });
+
+    it('throws a TimeoutException', () => {
+      const map = new SyncSharedMap();
+      expect(() => map.waitForKey('key', 10)).toThrow(TimeoutException);
+    });
+  });
+});
+
+describe('SyncMutex', () => {
+  it('is held by one thread at a time', () => {
+    const mutex = new SyncMutex(SyncMutex.allocate());
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    spawnWorker(
+      `
+        const mutex = new lib.SyncMutex(port.receiveMessage());
+        mutex.acquire();
+        port.postMessage('acquired');
+        setTimeout(() => {
+          port.postMessage('releasing');
+          mutex.release();
+          port.close();
+        }, 100);
+      `,
+      channel.port2,
+    );
+
+    port.postMessage(mutex.buffer);
+    expect(port.receiveMessage()).toBe('acquired');
+    expect(mutex.tryAcquire()).toBe(false);
+    mutex.acquire();
+    expect(port.receiveMessage()).toBe('releasing');
+    mutex.release();
+  });
+
+  it('throws a TimeoutException', () => {
+    const mutex = new SyncMutex(SyncMutex.allocate());
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    spawnWorker(
+      `
+        const mutex = new lib.SyncMutex(port.receiveMessage());
+        mutex.acquire();
+        port.postMessage('acquired');
+        port.receiveMessage({closedValue: undefined});
+        mutex.release();
+      `,
+      channel.port2,
+    );
+
+    port.postMessage(mutex.buffer);
+    expect(port.receiveMessage()).toBe('acquired');
+    expect(() => mutex.acquire(10)).toThrow(TimeoutException);
+    port.close();
+  });
+
+  it("can't be acquired twice by the same thread", () => {
+    const mutex = new SyncMutex(SyncMutex.allocate());
+    mutex.acquire();
+    expect(() => mutex.acquire()).toThrow(
+      'The SyncMutex is already held by this thread.',
+    );
+    mutex.release();
+    expect(() => mutex.release()).toThrow(
+      "The SyncMutex isn't held by this thread.",
+    );
+  });
+
+  it('releases waiters when closed', () => {
+    const mutex = new SyncMutex(SyncMutex.allocate());
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    spawnWorker(
+      `
+        const mutex = new lib.SyncMutex(port.receiveMessage());
+        mutex.acquire();
+        port.postMessage('acquired');
+        setTimeout(() => {
+          mutex.close();
+          port.close();
+        }, 100);
+      `,
+      channel.port2,
+    );
+
+    port.postMessage(mutex.buffer);
+    expect(port.receiveMessage()).toBe('acquired');
+    expect(() => mutex.acquire()).toThrow('The SyncMutex is closed.');
+    expect(mutex.isClosed).toBe(true);
+  });
+});
+
+describe('SyncSemaphore', () => {
+  it('limits the number of permits', () => {
+    const semaphore = new SyncSemaphore(SyncSemaphore.allocate(2));
+    expect(semaphore.tryAcquire()).toBe(true);
+    semaphore.acquire();
+    expect(semaphore.availablePermits).toBe(0);
+    expect(semaphore.tryAcquire()).toBe(false);
+    expect(() => semaphore.acquire(10)).toThrow(TimeoutException);
+
+    semaphore.release();
+    expect(semaphore.availablePermits).toBe(1);
+    semaphore.acquire();
+  });
+
+  it('blocks until another thread releases a permit', () => {
+    const semaphore = new SyncSemaphore(SyncSemaphore.allocate(0));
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    spawnWorker(
+      `
+        const semaphore = new lib.SyncSemaphore(port.receiveMessage());
+        setTimeout(() => {
+          semaphore.release();
+          port.close();
+        }, 100);
+      `,
+      channel.port2,
+    );
+
+    port.postMessage(semaphore.buffer);
+    semaphore.acquire();
+    expect(semaphore.availablePermits).toBe(0);
+  });
+
+  it('releases waiters when closed', () => {
+    const semaphore = new SyncSemaphore(SyncSemaphore.allocate(0));
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    spawnWorker(
+      `
+        const semaphore = new lib.SyncSemaphore(port.receiveMessage());
+        setTimeout(() => {
+          semaphore.close();
+          port.close();
+        }, 100);
+      `,
+      channel.port2,
+    );
+
+    port.postMessage(semaphore.buffer);
+    expect(() => semaphore.acquire()).toThrow('The SyncSemaphore is closed.');
+    expect(semaphore.isClosed).toBe(true);
+    expect(() => semaphore.tryAcquire()).toThrow(
+      'The SyncSemaphore is closed.',
+    );
+  });
+});
+
+describe('SyncCondition', () => {
+  it('wakes a waiting thread', () => {
+    const mutex = new SyncMutex(SyncMutex.allocate());
+    const condition = new SyncCondition(SyncCondition.allocate());
+    const state = new Int32Array(new SharedArrayBuffer(4));
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    spawnWorker(
+      `
+        const [mutexBuffer, conditionBuffer, stateBuffer] =
+          port.receiveMessage();
+        const mutex = new lib.SyncMutex(mutexBuffer);
+        const condition = new lib.SyncCondition(conditionBuffer);
+        const state = new Int32Array(stateBuffer);
+        setTimeout(() => {
+          mutex.acquire();
+          state[0] = 1;
+          condition.notify();
+          mutex.release();
+          port.close();
+        }, 100);
+      `,
+      channel.port2,
+    );
+
+    port.postMessage([mutex.buffer, condition.buffer, state.buffer]);
+    mutex.acquire();
+    while (state[0] === 0) {
+      condition.wait(mutex);
+    }
+    mutex.release();
+  });
+
+  it('throws a TimeoutException with the mutex reacquired', () => {
+    const mutex = new SyncMutex(SyncMutex.allocate());
+    const condition = new SyncCondition(SyncCondition.allocate());
+
+    mutex.acquire();
+    expect(() => condition.wait(mutex, 10)).toThrow(TimeoutException);
+    expect(mutex.tryAcquire()).toBe(false);
+    mutex.release();
+  });
+
+  it('releases waiters when closed', () => {
+    const mutex = new SyncMutex(SyncMutex.allocate());
+    const condition = new SyncCondition(SyncCondition.allocate());
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    spawnWorker(
+      `
+        const condition = new lib.SyncCondition(port.receiveMessage());
+        setTimeout(() => {
+          condition.close();
+          port.close();
+        }, 100);
+      `,
+      channel.port2,
+    );
+
+    port.postMessage(condition.buffer);
+    mutex.acquire();
+    expect(() => condition.wait(mutex)).toThrow('The SyncCondition is closed.');
+    mutex.release();
+  });
+
+  it("throws an error if the mutex is closed while it's waiting", () => {
+    const mutex = new SyncMutex(SyncMutex.allocate());
+    const condition = new SyncCondition(SyncCondition.allocate());
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+
+    spawnWorker(
+      `
+        const [mutexBuffer, conditionBuffer] = port.receiveMessage();
+        const mutex = new lib.SyncMutex(mutexBuffer);
+        const condition = new lib.SyncCondition(conditionBuffer);
+        setTimeout(() => {
+          mutex.close();
+          condition.notify();
+          port.close();
+        }, 100);
+      `,
+      channel.port2,
+    );
+
+    port.postMessage([mutex.buffer, condition.buffer]);
+    mutex.acquire();
+    expect(() => condition.wait(mutex)).toThrow('The SyncMutex is closed.');
+  });
+});
+
+describe('SyncWritable and SyncReadable', () => {
+  it('read lines written on another thread', () => {
+    const channel = SyncMessagePort.createChannel();
+    const reader = new SyncReadable(new SyncMessagePort(channel.port1));
+
+    spawnWorker(
+      `
+        const stream = new lib.SyncWritable(port);
+        stream.write('line 1\\nline');
+        stream.write(' 2\\r\\n');
+        stream.end('line 3');
+      `,
+      channel.port2,
+    );
+
+    expect(reader.readLineSync()).toBe('line 1');
+    expect(reader.readLineSync()).toBe('line 2');
+    expect(reader.readLineSync()).toBe('line 3');
+    expect(reader.readLineSync()).toBe(null);
+    expect(reader.readSync()).toBe(null);
+  });
+
+  it('read bytes in chunks', async () => {
+    const channel = SyncMessagePort.createChannel();
+    const writer = new SyncWritable(new SyncMessagePort(channel.port1));
+    const reader = new SyncReadable(new SyncMessagePort(channel.port2));
+
+    writer.write(Buffer.from([1, 2, 3, 4, 5]));
+    writer.write(Buffer.from([6]));
+    await new Promise(resolve => writer.end(resolve));
+
+    expect([...reader.readSync(2)!]).toEqual([1, 2]);
+    expect([...reader.readSync()!]).toEqual([3, 4, 5]);
+    expect([...reader.readSync(2)!]).toEqual([6]);
+    expect(reader.readSync(2)).toBe(null);
+  });
+
+  it("send only each chunk's bytes", async () => {
+    const channel = SyncMessagePort.createChannel();
+    const writer = new SyncWritable(new SyncMessagePort(channel.port1));
+    const port = new SyncMessagePort(channel.port2);
+
+    const chunk = Buffer.from('data');
+    expect(chunk.buffer.byteLength).toBeGreaterThan(chunk.length);
+    await new Promise(resolve => writer.write(chunk, resolve));
+
+    const received = port.receiveMessage() as Uint8Array;
+    expect(received.buffer.byteLength).toBe(4);
+    expect(Buffer.from(received).toString()).toBe('data');
+    expect(chunk.toString()).toBe('data');
+    port.close();
+  });
+
+  it('fail writes once the reader closes', async () => {
+    const channel = SyncMessagePort.createChannel();
+    const writer = new SyncWritable(new SyncMessagePort(channel.port1));
+    new SyncMessagePort(channel.port2).close();
+
+    writer.write('data');
+    const error = await new Promise(resolve => writer.once('error', resolve));
+    expect(error).toEqual(
+      new Error("The SyncMessagePort's channel is closed."),
+    );
+  });
+});
+
+/** The paths of the modules written by {@link writeModule}. */
+const modules: string[] = [];
+
+afterAll(() => {
+  for (const file of modules.splice(0)) fs.unlinkSync(file);
+});
+
+/**
+ * Writes a module with the given JavaScript `source` and returns its path. The
+ * module is deleted once all tests have run.
+ */
+function writeModule(source: string): string {
+  fs.mkdirSync('spec/sandbox', {recursive: true});
+  const file = p.resolve('spec/sandbox', `${Math.random()}.js`.slice(2));
+  fs.writeFileSync(file, source);
+  modules.push(file);
+  return file;
+}
 
 /**
  * Spawns a worker that executes the given TypeScript `source`.
  *
  * Automatically initializes a `SyncMessageChannel` named `port` connected to
- * `port`.
+ * `port`. The package's exports are available as `lib`.
  */
 function spawnWorker(source: string, port: MessagePort): Worker {
   fs.mkdirSync('spec/sandbox', {recursive: true});
@@ -437,9 +2946,10 @@ function spawnWorker(source: string, port: MessagePort): Worker {
   fs.writeFileSync(
     file,
     `
-      const {SyncMessagePort} = require(${JSON.stringify(
+      const lib = require(${JSON.stringify(
         p.join(p.dirname(__filename), 'index'),
       )});
+      const {SyncMessagePort} = lib;
       const {workerData} = require('worker_threads');
 
       const port = new SyncMessagePort(workerData);
@@ -450,7 +2960,7 @@ function spawnWorker(source: string, port: MessagePort): Worker {
 
   const worker = new Worker(
     `
-      require('ts-node').register();
+      require('ts-node').register({transpileOnly: true});
       require(${JSON.stringify(p.resolve(file.substring(0, file.length - 3)))});
     `,
     {eval: true, workerData: port, transferList: [port]},
@@ -7,9 +7,243 @@ import {
   MessageChannel,
   MessagePort,
   Transferable,
+  Worker,
   receiveMessageOnPort,
 } from 'worker_threads';
 import {AtomicCounter} from './atomic_counter';
+import {CancellationToken} from './cancellation_token';
+import {MessageCodec} from './codec';
+import {DeadlockDetector} from './deadlock_detector';
+import {EncodedError, ErrorCodec, ErrorConstructorLike} from './error_codec';
+import {ExitStatus} from './exit_status';
+import {Notifier} from './notifier';
+import {RingBuffer} from './ring_buffer';
+import {SyncSubchannel} from './subchannel';
+import {SubchannelTable} from './subchannel_table';
+
+export {SyncBroadcastChannel} from './broadcast_channel';
+export {CancellationToken} from './cancellation_token';
+export {EncodedMessage, MessageCodec, jsonCodec, v8Codec} from './codec';
+export {ErrorConstructorLike} from './error_codec';
+export {SyncCondition, SyncMutex, SyncSemaphore} from './locks';
+export {MakeSyncOptions, makeSync} from './make_sync';
+export {SyncRpcClient, SyncRpcHandler, SyncRpcServer} from './rpc';
+export {SyncSharedMap} from './shared_map';
+export {SyncReadable, SyncWritable} from './stream';
+export {SyncSubchannel} from './subchannel';
+export {TraceRecord, createTracer, traceChannelName} from './tracer';
+export {SyncWorkerPool, SyncWorkerPoolOptions} from './worker_pool';
+
+/**
+ * Options that can be passed to {@link SyncMessagePort.createChannel}.
+ */
+export interface ChannelOptions {
+  /**
+   * If set, each direction of the channel allocates a shared ring buffer of
+   * this many bytes that's used by {@link SyncMessagePort.postBytes} and {@link
+   * SyncMessagePort.receiveBytes} to send byte messages without structured
+   * cloning. If this isn't set, those methods throw an error.
+   */
+  byteBufferSize?: number;
+
+  /**
+   * If set, the maximum number of messages that each port may have posted
+   * without the other port having received them. Once this many messages are
+   * outstanding, {@link SyncMessagePort.postMessage} blocks until the other
+   * port receives one. If this isn't set, there's no limit.
+   */
+  capacity?: number;
+
+  /**
+   * If set, the maximum number of logical sub-channels that can be opened on
+   * this channel using {@link SyncMessagePort.openSubchannel}. If this isn't
+   * set, that method throws an error.
+   *
+   * Sub-channels are multiplexed over this channel's `MessagePort`, so opening
+   * one doesn't transfer any additional ports. Their counters are stored in a
+   * single `SharedArrayBuffer` that's allocated along with the channel.
+   */
+  maxSubchannels?: number;
+
+  /**
+   * A `SharedArrayBuffer` of at least four bytes that's signaled whenever a
+   * message is sent on this channel or it's closed.
+   *
+   * Passing the same buffer to multiple channels allows a single thread to
+   * wait for messages on any of them using {@link SyncMessagePort.select}.
+   */
+  selectNotifier?: SharedArrayBuffer;
+
+  /**
+   * If `true`, each port records in shared memory when it's blocked in {@link
+   * SyncMessagePort.receiveMessage} without a timeout. If both ports are
+   * blocked that way with no messages in flight, neither can ever receive a
+   * message, so both calls throw a {@link DeadlockException} instead.
+   *
+   * This makes each message a little more expensive to send, so it's disabled
+   * by default.
+   */
+  detectDeadlocks?: boolean;
+
+  /**
+   * If `true`, each message is sent along with its sequence number, and the
+   * receiving port verifies that messages arrive in a single global order
+   * without any being lost or duplicated. If they don't, the receive throws a
+   * {@link SequenceException}.
+   *
+   * Because messages must be consumed in order, {@link
+   * ReceiveMessageOptions.filter} can't be used on such a channel.
+   */
+  strictOrdering?: boolean;
+}
+
+/**
+ * The state that {@link SyncMessagePort.createChannel} queues up on each port
+ * for the `SyncMessagePort` constructor to pick up.
+ */
+interface ChannelSetup {
+  /** The buffer for the counter of messages posted from this port. */
+  postBuffer: SharedArrayBuffer;
+
+  /** The buffer for the counter of messages posted to this port. */
+  receiveBuffer: SharedArrayBuffer;
+
+  /** The ring buffer for byte messages posted from this port. */
+  postRing?: SharedArrayBuffer;
+
+  /** The ring buffer for byte messages posted to this port. */
+  receiveRing?: SharedArrayBuffer;
+
+  /** The port used for byte messages too large for the ring buffers. */
+  bytesPort?: MessagePort;
+
+  /** The port used for high-priority messages. */
+  priorityPort: MessagePort;
+
+  /**
+   * The buffer for the counter of high-priority messages posted from this
+   * port.
+   */
+  postPriorityBuffer: SharedArrayBuffer;
+
+  /**
+   * The buffer for the counter of high-priority messages posted to this
+   * port.
+   */
+  receivePriorityBuffer: SharedArrayBuffer;
+
+  /**
+   * The port used to register {@link CancellationToken}s that the other port
+   * should signal when it sends a message.
+   */
+  cancellationPort: MessagePort;
+
+  /**
+   * The buffer that holds, for each side of the channel, the number of receives
+   * on that side that are waiting with a {@link CancellationToken}.
+   *
+   * A port only processes the registrations sent on {@link cancellationPort}
+   * and signals the other port's tokens while the other port's count is
+   * non-zero, so that channels that don't use tokens don't pay for them.
+   */
+  tokenWaits: SharedArrayBuffer;
+
+  /**
+   * The port used to send {@link ControlMessage}s to the other port, outside
+   * the stream of ordinary messages.
+   */
+  controlPort: MessagePort;
+
+  /** See {@link ChannelOptions.capacity}. */
+  capacity?: number;
+
+  /** The buffer for the {@link SubchannelTable} shared by both ports. */
+  subchannelTable?: SharedArrayBuffer;
+
+  /** See {@link ChannelOptions.selectNotifier}. */
+  selectNotifier?: SharedArrayBuffer;
+
+  /** The buffer for the {@link ExitStatus} shared by both ports. */
+  exitStatus: SharedArrayBuffer;
+
+  /** The buffer for the {@link DeadlockDetector} shared by both ports. */
+  deadlockBuffer?: SharedArrayBuffer;
+
+  /** See {@link ChannelOptions.strictOrdering}. */
+  strictOrdering?: boolean;
+
+  /**
+   * Which side of the channel this port is on: 0 or 1. Used to index state
+   * that's shared by both ports.
+   */
+  side: number;
+}
+
+/**
+ * Options that can be passed to `new SyncMessagePort()`.
+ */
+export interface SyncMessagePortOptions {
+  /**
+   * A codec that's used to encode every message sent by {@link
+   * SyncMessagePort.postMessage} and decode every message received by this
+   * port. The other port must use a compatible codec.
+   */
+  codec?: MessageCodec;
+
+  /**
+   * The name of the protocol this port's messages follow. If this is set, this
+   * port performs a handshake with the other port to verify that it uses the
+   * same protocol and {@link version}, as well as the same version of this
+   * package.
+   *
+   * The handshake completes when the second of the two ports is constructed,
+   * and if it fails, that constructor throws a {@link HandshakeException} and
+   * closes the channel. The first port then throws the same exception from its
+   * next receive.
+   */
+  protocol?: string;
+
+  /**
+   * The version of {@link protocol} this port uses. The handshake fails unless
+   * the other port uses exactly the same version. Ignored if {@link protocol}
+   * isn't set.
+   */
+  version?: number;
+
+  /**
+   * The optional protocol features this port supports. Once the handshake
+   * completes, {@link SyncMessagePort.negotiatedFeatures} contains those that
+   * both ports support. Ignored if {@link protocol} isn't set.
+   */
+  features?: string[];
+}
+
+/**
+ * Options that can be passed to {@link SyncMessagePort.postMessage}.
+ */
+export interface PostMessageOptions {
+  /** Objects to transfer rather than clone. See `MessagePort.postMessage()`. */
+  transfer?: Transferable[];
+
+  /**
+   * The time (in milliseconds) to wait for room in a bounded channel (see
+   * {@link ChannelOptions.capacity}) before throwing a {@link
+   * TimeoutException}.
+   */
+  timeout?: number;
+
+  /**
+   * If `'high'`, the message is sent on a separate lane that the other port's
+   * receives check first, so that it's received before any normal-priority
+   * messages that were sent earlier but haven't been received yet.
+   * High-priority messages are still received in order relative to one
+   * another, and never wait for room in a bounded channel.
+   *
+   * This can't be used on a channel created with {@link
+   * ChannelOptions.strictOrdering}. Defaults to `'normal'`.
+   */
+  priority?: 'normal' | 'high';
+}
 
 /**
  * Options that can be passed to {@link SyncMessagePort.receiveMessage}.
@@ -33,149 +267,2295 @@ export interface ReceiveMessageOptions {
    * value.
    */
   closedValue?: unknown;
+
+  /**
+   * If set, only a message for which this returns `true` is received. Messages
+   * that arrive first and don't match are buffered, and are received in their
+   * original order by later calls (or delivered to `'message'` listeners).
+   */
+  filter?: (message: unknown) => boolean;
+
+  /**
+   * If set, cancelling this token while the receive is waiting for a message
+   * causes it to throw an {@link AbortError}. The token may be cancelled from
+   * any thread, including while this thread is blocked.
+   *
+   * Use {@link CancellationToken.fromAbortSignal} to create a token from an
+   * `AbortSignal`.
+   */
+  signal?: CancellationToken;
+
+  /**
+   * If `true`, the message is returned as a {@link ReceivedMessage} that
+   * includes its metadata. This doesn't affect {@link timeoutValue} or {@link
+   * closedValue}, which are returned as-is.
+   */
+  withMetadata?: boolean;
 }
 
 /**
- * An exception thrown by {@link SyncMessagePort.receiveMessage} if a message
- * isn't received within {@link ReceivedMessageOptions.timeout} milliseconds.
+ * Options that can be passed to {@link SyncMessagePort.receiveMessages}.
  */
-export class TimeoutException extends Error {
-  constructor(message: string) {
-    super(message);
-  }
+export interface ReceiveMessagesOptions {
+  /**
+   * The maximum number of messages to return. Defaults to all the messages
+   * that are available.
+   */
+  max?: number;
+
+  /**
+   * The time (in milliseconds) to wait for the first message before throwing
+   * a {@link TimeoutException}.
+   */
+  timeout?: number;
+
+  /** See {@link ReceiveMessageOptions.signal}. */
+  signal?: CancellationToken;
 }
 
 /**
- * A communication port that can receive messages synchronously from another
- * `SyncMessagePort`.
- *
- * This also emits the same asynchronous events as `MessagePort`. Messages are
- * preferentially sent to {@link receiveMessage} if a call to it is outstanding,
- * and only sent to the event handler if they weren't received synchronously.
+ * Metadata about a message received by a {@link SyncMessagePort}. This is also
+ * passed as the second argument to `'message'` listeners.
  */
-export class SyncMessagePort extends EventEmitter {
-  /** Creates a channel whose ports can be passed to `new SyncMessagePort()`. */
-  static createChannel(): MessageChannel {
-    const channel = new MessageChannel();
-    // 16 bytes is required for `AtomicCounter`.
-    const buffer1 = new SharedArrayBuffer(16);
-    const buffer2 = new SharedArrayBuffer(16);
-
-    // Queue up messages on each port so the caller doesn't have to explicitly
-    // pass the buffer around along with them.
-    channel.port1.postMessage(buffer1);
-    channel.port1.postMessage(buffer2);
-    channel.port2.postMessage(buffer2);
-    channel.port2.postMessage(buffer1);
-    return channel;
-  }
-
+export interface MessageMetadata {
   /**
-   * An atomic counter of messages posted yet to be received.
+   * The message's position among all messages sent by the other port, starting
+   * at 0. Messages sent with {@link SyncMessagePort.postError} are included.
    */
-  private readonly postCounter: AtomicCounter;
+  sequence: number;
+}
+
+/**
+ * A message returned by {@link SyncMessagePort.receiveMessage} when {@link
+ * ReceiveMessageOptions.withMetadata} is passed.
+ */
+export interface ReceivedMessage extends MessageMetadata {
+  /** The message that was received. */
+  message: unknown;
+}
 
+/**
+ * Options that can be passed to {@link SyncMessagePort.select}.
+ */
+export interface SelectOptions {
   /**
-   * An atomic counter of messages available to be received.
+   * The time (in milliseconds) to wait for any port to become ready before
+   * throwing a {@link TimeoutException}.
    */
-  private readonly receiveCounter: AtomicCounter;
+  timeout?: number;
+}
+
+/**
+ * Statistics about a {@link SyncMessagePort}, returned by {@link
+ * SyncMessagePort.stats}.
+ */
+export interface SyncMessagePortStats {
+  /** The number of messages available to be received by this port. */
+  pending: number;
+
+  /** The total number of messages sent by this port. */
+  sent: number;
+
+  /** The total number of messages received by this port. */
+  received: number;
 
   /**
-   * Creates a new message port. The `port` must be created by
-   * `SyncMessagePort.createChannel()` and must connect to a port passed to
-   * another `SyncMessagePort` in another worker.
+   * The total time (in milliseconds) this port has spent blocked waiting for
+   * messages or for room in a bounded channel.
    */
-  constructor(private readonly port: MessagePort) {
-    super();
+  totalBlockingTime: number;
 
-    const buffer1 = receiveMessageOnPort(this.port)?.message;
-    const buffer2 = receiveMessageOnPort(this.port)?.message;
-    if (!buffer1 || !buffer2) {
-      throw new Error(
-        'new SyncMessagePort() must be passed a port from ' +
-          'SyncMessagePort.createChannel().',
-      );
-    }
-    this.postCounter = new AtomicCounter(buffer1 as SharedArrayBuffer);
-    this.receiveCounter = new AtomicCounter(buffer2 as SharedArrayBuffer);
+  /** The longest time (in milliseconds) that a single wait has blocked. */
+  maxBlockingTime: number;
 
-    const messageHandler = (): void => {
-      this.receiveCounter.wait();
-      this.receiveCounter.decrement();
-    };
-    this.port.on('messageerror', (error: Error): void => {
-      messageHandler();
-      if (!this.listenerCount('messageerror')) {
-        throw error;
-      }
-    });
-    this.on('newListener', (event, listener) => {
-      if (event === 'message' && !this.listenerCount(event)) {
-        this.port.on(event, messageHandler);
-      }
-      this.port.on(event, listener);
-    });
-    this.on('removeListener', (event, listener) => {
-      this.port.removeListener(event, listener);
-      if (event === 'message' && !this.listenerCount(event)) {
-        this.port.removeListener(event, messageHandler);
-      }
-    });
-  }
+  /** The time (in milliseconds) that the most recent wait blocked. */
+  lastBlockingTime: number;
 
-  /** See `MessagePort.postMesage()`. */
-  postMessage(value: unknown, transferList?: Transferable[]): void {
-    // @ts-expect-error: TypeScript gets confused with the overloads.
-    this.port.postMessage(value, transferList);
-    this.postCounter.increment();
-  }
+  /** The number of sends and receives that have timed out. */
+  timeouts: number;
 
+  /** Whether the channel is closed. */
+  closed: boolean;
+}
+
+/**
+ * Information about a message passed to a {@link SyncMessagePortInterceptor}.
+ */
+export interface InterceptedMessageInfo {
   /**
-   * Returns the message sent by the other port, if one is available. This *does
-   * not* block, and will return `undefined` immediately if no message is
-   * available. In order to distinguish between a message with value `undefined`
-   * and no message, a message is return in an object with a `message` field.
-   *
-   * It does *not* throw an error if the port is closed when this is called;
-   * instead, it just returns `undefined`.
+   * The time (in milliseconds) the port spent blocked since it last sent or
+   * received a message, for example waiting for this message to arrive or for
+   * room in a bounded channel to send it.
    */
-  receiveMessageIfAvailable(): {message: unknown} | undefined {
-    const message = receiveMessageOnPort(this.port);
-    if (message) {
-      this.receiveCounter.wait();
-      this.receiveCounter.decrement();
-    }
-    return message;
-  }
+  blockingTime: number;
+}
 
+/**
+ * Callbacks that observe a {@link SyncMessagePort}'s activity, registered with
+ * {@link SyncMessagePort.use}.
+ */
+export interface SyncMessagePortInterceptor {
   /**
-   * Blocks and returns the next message sent by the other port.
-   *
-   * Throws an error if the channel is closed and all messages are drained,
-   * including if it closes while this is waiting for a message, unless
-   * {@link ReceiveMessageOptions.closedValue} is passed.
+   * Called with each message sent by {@link SyncMessagePort.postMessage} (or a
+   * similar method) before it's sent.
    */
-  receiveMessage(options?: ReceiveMessageOptions): unknown {
-    if (!this.receiveCounter.wait(options?.timeout)) {
-      if ('timeoutValue' in options!) return options.timeoutValue;
-      throw new TimeoutException('SyncMessagePort.receiveMessage() timed out.');
+  onSend?(message: unknown, info: InterceptedMessageInfo): void;
+
+  /**
+   * Called with each message received by the port, whether it's received
+   * synchronously or delivered as an event. For messages sent with {@link
+   * SyncMessagePort.postError}, this is passed the reconstructed error.
+   */
+  onReceive?(message: unknown, info: InterceptedMessageInfo): void;
+
+  /** Called when {@link SyncMessagePort.close} is called. */
+  onClose?(): void;
+}
+
+/**
+ * The result of {@link SyncMessagePort.select}.
+ */
+export type SelectResult =
+  | {
+      /** The port a message was received from. */
+      port: SyncMessagePort;
+      closed: false;
+      /** The message that was received. */
+      message: unknown;
     }
+  | {
+      /** The port whose channel is closed with all messages drained. */
+      port: SyncMessagePort;
+      closed: true;
+    };
 
-    const message = receiveMessageOnPort(this.port);
-    if (message) {
-      this.receiveCounter.decrement();
-      return message.message;
+/**
+ * The key that identifies an {@link Envelope}: data that a port sends on its
+ * underlying `MessagePort` for its own purposes, rather than for a message
+ * passed to {@link SyncMessagePort.postMessage}. Its value is the envelope's
+ * kind.
+ *
+ * Messages whose data has this key are sent in an {@link EscapedEnvelope}, so
+ * they're never mistaken for another kind of envelope.
+ */
+const envelopeKey = '__syncMessagePort__';
+
+/** A message sent by {@link SyncSubchannel.postMessage}. */
+interface SubchannelEnvelope {
+  [envelopeKey]: 'subchannel';
+
+  /** The sub-channel's slot in the channel's {@link SubchannelTable}. */
+  slot: number;
+
+  /** The message data, encoded by the sending port. */
+  data: unknown;
+}
+
+/** A message sent by {@link SyncMessagePort.postError}. */
+interface ErrorEnvelope {
+  [envelopeKey]: 'error';
+
+  /** The error, encoded by the sending port's {@link ErrorCodec}. */
+  error: EncodedError;
+}
+
+/** A message whose data would otherwise be mistaken for an {@link Envelope}. */
+interface EscapedEnvelope {
+  [envelopeKey]: 'escaped';
+
+  /** The message data, encoded by the sending port. */
+  data: unknown;
+}
+
+/** See {@link envelopeKey}. */
+type Envelope = SubchannelEnvelope | ErrorEnvelope | EscapedEnvelope;
+
+/**
+ * An error sent by {@link SyncMessagePort.postError}, as it's held by the
+ * receiving port until it's delivered.
+ *
+ * Because this is a class local to each thread, no message data can be
+ * mistaken for it.
+ */
+class ReceivedError {
+  constructor(readonly error: EncodedError) {}
+}
+
+/**
+ * The data sent for each message on a channel created with {@link
+ * ChannelOptions.strictOrdering}.
+ */
+interface SequencedData {
+  /** See {@link MessageMetadata.sequence}. */
+  sequence: number;
+
+  /** The message data, encoded by the sending port. */
+  data: unknown;
+}
+
+/** A {@link CancellationToken} that a port has registered with the other port. */
+interface TokenRegistration {
+  /** See {@link CancellationRegistration.id}. */
+  id: number;
+
+  /** A notifier for the token. */
+  notifier: Notifier;
+
+  /** The number of receives on this port that are waiting with the token. */
+  waits: number;
+}
+
+/**
+ * A message sent on {@link ChannelSetup.cancellationPort} to ask the other port
+ * to signal a {@link CancellationToken} whenever it sends a message, or to stop
+ * doing so if `buffer` isn't set.
+ */
+interface CancellationRegistration {
+  /** An ID that's unique among the registrations sent by one port. */
+  id: number;
+
+  /** The token's {@link CancellationToken.buffer}. */
+  buffer?: SharedArrayBuffer;
+}
+
+/**
+ * The version of the data exchanged by ports from this package. This is
+ * incremented whenever that data changes in a way that's incompatible with
+ * ports from earlier versions of the package.
+ */
+const wireVersion = 1;
+
+/**
+ * The metadata each port sends to the other in a {@link ControlMessage} when
+ * it's constructed.
+ */
+interface HandshakeMetadata {
+  /** See {@link wireVersion}. */
+  wireVersion: number;
+
+  /** See {@link SyncMessagePortOptions.protocol}. */
+  protocol?: string;
+
+  /** See {@link SyncMessagePortOptions.version}. */
+  version?: number;
+
+  /** See {@link SyncMessagePortOptions.features}. */
+  features: string[];
+}
+
+/** A message sent on {@link ChannelSetup.controlPort}. */
+type ControlMessage =
+  | {
+      /** Sent by each port when it's constructed. */
+      type: 'handshake';
+      metadata: HandshakeMetadata;
     }
+  | {
+      /**
+       * Sent by a port when {@link SyncMessagePort.end} or {@link
+       * SyncMessagePort.close} is first called on it.
+       */
+      type: 'end';
+      reason: unknown;
+    };
 
-    // The port is closed and all remaining messages are drained.
-    if (options && 'closedValue' in options) return options.closedValue;
-    throw new Error("The SyncMessagePort's channel is closed.");
-  }
+/** A sentinel value used to detect when an async receive finds the port closed. */
+const closedSentinel = Symbol('closed');
 
-  /** See `MessagePort.close()`. */
-  close(): void {
-    this.port.close();
-    this.postCounter.close();
-    this.receiveCounter.close();
-  }
+/**
+ * Weak references to callbacks for each open `SyncMessagePort` that record
+ * that the current thread exited with the given code, so that the other ports
+ * don't wait forever.
+ *
+ * These are weak so that ports which are never closed can still be garbage
+ * collected. {@link exitHandlerRegistry} removes their entries once they are.
+ */
+const exitHandlers = new Set<WeakRef<(code: number) => void>>();
+
+/** Removes entries from {@link exitHandlers} for collected ports. */
+const exitHandlerRegistry = new FinalizationRegistry<
+  WeakRef<(code: number) => void>
+>(handler => exitHandlers.delete(handler));
+
+process.on('exit', code => {
+  for (const handler of [...exitHandlers]) handler.deref()?.(code);
+});
+
+/**
+ * An exception thrown by {@link SyncMessagePort.receiveMessage} if a message
+ * isn't received within {@link ReceivedMessageOptions.timeout} milliseconds.
+ */
+export class TimeoutException extends Error {
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * An exception thrown by {@link SyncMessagePort.receiveMessage} if both ports
+ * of a channel created with {@link ChannelOptions.detectDeadlocks} are waiting
+ * for a message from one another with no messages in flight.
+ */
+export class DeadlockException extends Error {
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * An exception thrown by {@link SyncMessagePort.receiveMessage} if its {@link
+ * ReceiveMessageOptions.signal} is cancelled while it's waiting.
+ */
+export class AbortError extends Error {
+  constructor(message: string) {
+    super(message);
+    // Match the name of the errors thrown by aborted Node.js and DOM APIs.
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * An exception thrown by {@link SyncMessagePort.receiveMessage} and similar
+ * methods if the channel is closed and all messages are drained.
+ *
+ * If the thread holding the other port exited without closing it, the more
+ * specific {@link PeerTerminatedException} is thrown instead.
+ */
+export class ChannelClosedException extends Error {
+  constructor(
+    message: string,
+    /**
+     * The reason passed to {@link SyncMessagePort.end} or {@link
+     * SyncMessagePort.close} by the other port, or by this port if it closed
+     * first. This is `undefined` if no reason was passed.
+     */
+    readonly reason?: unknown,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * An exception thrown by {@link SyncMessagePort.receiveMessage} if the thread
+ * holding the other port exited without closing it and all messages are
+ * drained.
+ */
+export class PeerTerminatedException extends ChannelClosedException {
+  constructor(
+    message: string,
+    /** The exit code of the thread holding the other port. */
+    readonly exitCode: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * An exception thrown by `new SyncMessagePort()` or by a receive if the ports
+ * of a channel don't agree on the {@link SyncMessagePortOptions.protocol} they
+ * use.
+ */
+export class HandshakeException extends Error {
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * An exception thrown when receiving a message on a channel created with
+ * {@link ChannelOptions.strictOrdering} if a message was lost or duplicated.
+ */
+export class SequenceException extends Error {
+  constructor(
+    message: string,
+    /** The sequence number of the message that should have been received. */
+    readonly expected: number,
+    /**
+     * The sequence number of the message that was received instead, or
+     * `undefined` if no message was available.
+     */
+    readonly actual: number | undefined,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A communication port that can receive messages synchronously from another
+ * `SyncMessagePort`.
+ *
+ * This also emits the same asynchronous events as `MessagePort`. Messages are
+ * preferentially sent to {@link receiveMessage} if a call to it is outstanding,
+ * and only sent to the event handler if they weren't received synchronously.
+ * `'message'` listeners are passed a {@link MessageMetadata} as a second
+ * argument, and `'close'` listeners are passed the reason the channel was
+ * closed (see {@link ChannelClosedException.reason}).
+ */
+export class SyncMessagePort extends EventEmitter {
+  /** Creates a channel whose ports can be passed to `new SyncMessagePort()`. */
+  static createChannel(options?: ChannelOptions): MessageChannel {
+    const channel = new MessageChannel();
+    // 16 bytes is required for `AtomicCounter`.
+    const buffer1 = new SharedArrayBuffer(16);
+    const buffer2 = new SharedArrayBuffer(16);
+    const exitStatus = ExitStatus.allocate();
+    const priorityBuffer1 = new SharedArrayBuffer(16);
+    const priorityBuffer2 = new SharedArrayBuffer(16);
+    const priorityChannel = new MessageChannel();
+    const cancellationChannel = new MessageChannel();
+    const tokenWaits = new SharedArrayBuffer(8);
+    const controlChannel = new MessageChannel();
+    const setup1: ChannelSetup = {
+      postBuffer: buffer2,
+      receiveBuffer: buffer1,
+      priorityPort: priorityChannel.port1,
+      postPriorityBuffer: priorityBuffer2,
+      receivePriorityBuffer: priorityBuffer1,
+      cancellationPort: cancellationChannel.port1,
+      tokenWaits,
+      controlPort: controlChannel.port1,
+      exitStatus,
+      side: 0,
+    };
+    const setup2: ChannelSetup = {
+      postBuffer: buffer1,
+      receiveBuffer: buffer2,
+      priorityPort: priorityChannel.port2,
+      postPriorityBuffer: priorityBuffer1,
+      receivePriorityBuffer: priorityBuffer2,
+      cancellationPort: cancellationChannel.port2,
+      tokenWaits,
+      controlPort: controlChannel.port2,
+      exitStatus,
+      side: 1,
+    };
+    const transfer1: Transferable[] = [
+      priorityChannel.port1,
+      cancellationChannel.port1,
+      controlChannel.port1,
+    ];
+    const transfer2: Transferable[] = [
+      priorityChannel.port2,
+      cancellationChannel.port2,
+      controlChannel.port2,
+    ];
+
+    if (options?.capacity !== undefined) {
+      if (!Number.isInteger(options.capacity) || options.capacity <= 0) {
+        throw new Error('Channel capacity must be a positive integer.');
+      }
+      setup1.capacity = setup2.capacity = options.capacity;
+    }
+
+    if (options?.byteBufferSize !== undefined) {
+      const ring1 = RingBuffer.allocate(options.byteBufferSize);
+      const ring2 = RingBuffer.allocate(options.byteBufferSize);
+      const bytesChannel = new MessageChannel();
+      setup1.postRing = setup2.receiveRing = ring2;
+      setup1.receiveRing = setup2.postRing = ring1;
+      setup1.bytesPort = bytesChannel.port1;
+      setup2.bytesPort = bytesChannel.port2;
+      transfer1.push(bytesChannel.port1);
+      transfer2.push(bytesChannel.port2);
+    }
+
+    if (options?.selectNotifier) {
+      setup1.selectNotifier = setup2.selectNotifier = options.selectNotifier;
+    }
+
+    if (options?.detectDeadlocks) {
+      setup1.deadlockBuffer = setup2.deadlockBuffer =
+        DeadlockDetector.allocate();
+    }
+
+    if (options?.strictOrdering) {
+      setup1.strictOrdering = setup2.strictOrdering = true;
+    }
+
+    if (options?.maxSubchannels !== undefined) {
+      setup1.subchannelTable = setup2.subchannelTable =
+        SubchannelTable.allocate(options.maxSubchannels);
+    }
+
+    // Queue up messages on each port so the caller doesn't have to explicitly
+    // pass the setup state around along with them.
+    channel.port2.postMessage(setup1, transfer1);
+    channel.port1.postMessage(setup2, transfer2);
+    return channel;
+  }
+
+  /**
+   * Blocks until any of `ports` has a message available or has its channel
+   * closed, and returns that port along with the message it received.
+   *
+   * If multiple ports are ready, the one that comes first in `ports` is used. A
+   * port whose channel is closed with all messages drained is returned with
+   * `closed: true` every time it's selected, so callers should stop passing it
+   * once they've seen that.
+   *
+   * If `ports` contains more than one port, they must all come from channels
+   * created with the same {@link ChannelOptions.selectNotifier}. Otherwise,
+   * this may not wake up when a message arrives.
+   */
+  static select(
+    ports: SyncMessagePort[],
+    options?: SelectOptions,
+  ): SelectResult {
+    if (ports.length === 0) {
+      throw new Error('SyncMessagePort.select() requires at least one port.');
+    }
+    const notifier = ports[0].selectNotifier;
+    if (ports.length > 1 && ports.some(port => !port.selectNotifier)) {
+      throw new Error(
+        'SyncMessagePort.select() requires ports from channels created with ' +
+          'a selectNotifier.',
+      );
+    }
+
+    const deadline = deadlineFor(options?.timeout);
+    for (;;) {
+      const generation = notifier?.generation;
+      for (const port of ports) {
+        if (!port.hasMessageOrClosed()) continue;
+        const message = port.receiveMessage({closedValue: closedSentinel});
+        return message === closedSentinel
+          ? {port, closed: true}
+          : {port, closed: false, message};
+      }
+
+      const signaled = notifier
+        ? notifier.wait(generation!, timeoutUntil(deadline))
+        : ports[0].receiveCounter.wait(timeoutUntil(deadline));
+      if (!signaled) {
+        throw new TimeoutException('SyncMessagePort.select() timed out.');
+      }
+    }
+  }
+
+  /**
+   * An atomic counter of messages posted yet to be received.
+   */
+  private readonly postCounter: AtomicCounter;
+
+  /**
+   * An atomic counter of messages available to be received.
+   */
+  private readonly receiveCounter: AtomicCounter;
+
+  /** See {@link ChannelSetup.priorityPort}. */
+  private readonly priorityPort: MessagePort;
+
+  /**
+   * An atomic counter of high-priority messages posted yet to be received.
+   * These are also counted by {@link postCounter}.
+   */
+  private readonly postPriorityCounter: AtomicCounter;
+
+  /**
+   * An atomic counter of high-priority messages available to be received.
+   * These are also counted by {@link receiveCounter}.
+   */
+  private readonly receivePriorityCounter: AtomicCounter;
+
+  /**
+   * The ring buffer for byte messages posted from this port, if the channel
+   * was created with {@link ChannelOptions.byteBufferSize}.
+   */
+  private readonly postRing?: RingBuffer;
+
+  /**
+   * The ring buffer for byte messages posted to this port, if the channel was
+   * created with {@link ChannelOptions.byteBufferSize}.
+   */
+  private readonly receiveRing?: RingBuffer;
+
+  /** The port used for byte messages too large for {@link postRing}. */
+  private readonly bytesPort?: MessagePort;
+
+  /** See {@link ChannelSetup.cancellationPort}. */
+  private readonly cancellationPort: MessagePort;
+
+  /**
+   * Notifiers for the tokens that the other port has registered to be signaled
+   * when this sends a message, indexed by registration ID.
+   */
+  private readonly peerCancellations = new Map<number, Notifier>();
+
+  /** See {@link ChannelSetup.tokenWaits}. */
+  private readonly tokenWaits: Int32Array;
+
+  /**
+   * The tokens this port has registered with the other port, indexed by their
+   * buffers. These are signaled when this port is closed.
+   *
+   * A registration is kept once no receives are waiting with its token, so
+   * that a loop that receives with the same token only registers it once.
+   * Registrations that aren't in use are removed when a different token is
+   * registered.
+   */
+  private readonly registeredTokens = new Map<
+    SharedArrayBuffer,
+    TokenRegistration
+  >();
+
+  /** The ID to use for the next {@link CancellationRegistration}. */
+  private nextCancellationId = 0;
+
+  /** See {@link ChannelSetup.controlPort}. */
+  private readonly controlPort: MessagePort;
+
+  /**
+   * The metadata this port sent to the other port, if it was constructed with
+   * a {@link SyncMessagePortOptions.protocol} and so performs a handshake.
+   */
+  private readonly handshake?: HandshakeMetadata;
+
+  /** The metadata the other port sent, once it's been received. */
+  private peerHandshake?: HandshakeMetadata;
+
+  /**
+   * Whether {@link peerHandshake} has been verified to be compatible with
+   * {@link handshake}.
+   */
+  private handshakeVerified = false;
+
+  /**
+   * Whether {@link end} or {@link close} has been called on this port, and if
+   * so, the reason passed to the first of them.
+   */
+  private ending?: {reason: unknown};
+
+  /** Whether {@link end} has been called on this port. */
+  private ended = false;
+
+  /**
+   * Whether the other port has called {@link end} or {@link close}, and if so,
+   * the reason it passed. This is only updated by {@link
+   * receiveControlMessages}.
+   */
+  private peerEnding?: {reason: unknown};
+
+  /** The interceptors registered with {@link use}. */
+  private readonly interceptors: SyncMessagePortInterceptor[] = [];
+
+  /**
+   * The time (in milliseconds) this port has spent blocked since it last sent
+   * or received a message. See {@link InterceptedMessageInfo.blockingTime}.
+   */
+  private blockingTime = 0;
+
+  /** See {@link ChannelOptions.capacity}. */
+  private readonly capacity?: number;
+
+  /**
+   * Messages that have been received from {@link port} but not yet consumed,
+   * because they didn't match a {@link ReceiveMessageOptions.filter}.
+   *
+   * These are consumed before any messages still in {@link port}.
+   */
+  private readonly buffered: ReceivedMessage[] = [];
+
+  /** Whether {@link drainBuffered} is scheduled to run. */
+  private drainScheduled = false;
+
+  /** See {@link ChannelSetup.subchannelTable}. */
+  private readonly subchannelTable?: SubchannelTable;
+
+  /** The sub-channels that have been opened, indexed by name. */
+  private readonly openSubchannels = new Map<string, SyncSubchannel>();
+
+  /**
+   * Messages for sub-channels that were taken from {@link port} while
+   * receiving something else, indexed by the sub-channel's slot in {@link
+   * subchannelTable}. These are no longer counted by the sub-channel's
+   * counter.
+   */
+  private readonly subchannelMessages = new Map<number, unknown[]>();
+
+  /** See {@link ChannelSetup.side}. */
+  private readonly side: number;
+
+  /** See {@link ChannelOptions.selectNotifier}. */
+  private readonly selectNotifier?: Notifier;
+
+  /** See {@link ChannelOptions.detectDeadlocks}. */
+  private readonly deadlockDetector?: DeadlockDetector;
+
+  /** See {@link ChannelOptions.strictOrdering}. */
+  private readonly strictOrdering: boolean;
+
+  /** The sequence number of the next message this port receives. */
+  private nextReceiveSequence = 0;
+
+  /** Whether and how the threads holding each port have exited. */
+  private readonly exitStatus: ExitStatus;
+
+  /**
+   * Closes this port when the current thread exits, recording its exit code
+   * so the other port can report it.
+   */
+  private readonly exitHandler = (code: number): void => {
+    this.exitStatus.markExited(code);
+    this.close();
+  };
+
+  /** The weak reference to {@link exitHandler} in {@link exitHandlers}. */
+  private readonly exitHandlerRef = new WeakRef(this.exitHandler);
+
+  /** The error types registered with {@link registerErrorType}. */
+  private readonly errorCodec = new ErrorCodec();
+
+  /** See {@link SyncMessagePortOptions.codec}. */
+  private readonly codec?: MessageCodec;
+
+  /**
+   * Statistics tracked by this port. The {@link SyncMessagePortStats.pending}
+   * and {@link SyncMessagePortStats.closed} fields are computed on demand.
+   */
+  private readonly counts: Omit<SyncMessagePortStats, 'pending' | 'closed'> = {
+    sent: 0,
+    received: 0,
+    totalBlockingTime: 0,
+    maxBlockingTime: 0,
+    lastBlockingTime: 0,
+    timeouts: 0,
+  };
+
+  /**
+   * Creates a new message port. The `port` must be created by
+   * `SyncMessagePort.createChannel()` and must connect to a port passed to
+   * another `SyncMessagePort` in another worker.
+   */
+  constructor(
+    private readonly port: MessagePort,
+    options?: SyncMessagePortOptions,
+  ) {
+    super();
+    this.codec = options?.codec;
+
+    const setup = receiveMessageOnPort(this.port)?.message as
+      ChannelSetup | undefined;
+    if (!setup?.postBuffer || !setup.receiveBuffer) {
+      throw new Error(
+        'new SyncMessagePort() must be passed a port from ' +
+          'SyncMessagePort.createChannel().',
+      );
+    }
+    this.postCounter = new AtomicCounter(setup.postBuffer);
+    this.receiveCounter = new AtomicCounter(setup.receiveBuffer);
+    this.priorityPort = setup.priorityPort;
+    this.postPriorityCounter = new AtomicCounter(setup.postPriorityBuffer);
+    this.receivePriorityCounter = new AtomicCounter(
+      setup.receivePriorityBuffer,
+    );
+    this.capacity = setup.capacity;
+    this.cancellationPort = setup.cancellationPort;
+    this.tokenWaits = new Int32Array(setup.tokenWaits);
+    this.controlPort = setup.controlPort;
+    if (setup.postRing && setup.receiveRing && setup.bytesPort) {
+      this.postRing = new RingBuffer(setup.postRing);
+      this.receiveRing = new RingBuffer(setup.receiveRing);
+      this.bytesPort = setup.bytesPort;
+    }
+    if (setup.selectNotifier) {
+      this.selectNotifier = new Notifier(setup.selectNotifier);
+    }
+    this.strictOrdering = setup.strictOrdering ?? false;
+    this.exitStatus = new ExitStatus(setup.exitStatus, setup.side);
+    exitHandlers.add(this.exitHandlerRef);
+    exitHandlerRegistry.register(
+      this,
+      this.exitHandlerRef,
+      this.exitHandlerRef,
+    );
+    if (setup.deadlockBuffer) {
+      this.deadlockDetector = new DeadlockDetector(
+        setup.deadlockBuffer,
+        setup.side,
+      );
+    }
+    if (setup.subchannelTable) {
+      this.subchannelTable = new SubchannelTable(setup.subchannelTable);
+    }
+    this.side = setup.side;
+
+    const consumeMessage = (): void => {
+      this.receiveCounter.wait();
+      this.receiveCounter.decrement();
+    };
+    const emitData = (data: unknown): void => {
+      let received: ReceivedMessage;
+      try {
+        received = this.unwrap(data);
+      } catch (error: unknown) {
+        this.emit('error', error);
+        return;
+      }
+      if (this.buffered.length > 0) {
+        this.buffered.push(received);
+        this.drainBuffered();
+      } else {
+        this.emitMessage(received);
+      }
+    };
+    // Messages are emitted from these rather than forwarded directly from the
+    // ports so that buffered messages can be delivered first.
+    const messageHandler = (data: unknown): void => {
+      if (isSubchannelEnvelope(data)) {
+        this.queueSubchannelData(data);
+        return;
+      }
+      consumeMessage();
+      emitData(data);
+    };
+    const priorityMessageHandler = (data: unknown): void => {
+      this.receivePriorityCounter.wait();
+      this.receivePriorityCounter.decrement();
+      consumeMessage();
+      emitData(data);
+    };
+    this.port.on('messageerror', (error: Error): void => {
+      consumeMessage();
+      if (!this.listenerCount('messageerror')) {
+        throw error;
+      }
+    });
+    // The close reason is passed to listeners, so they're also invoked from
+    // this rather than from the port directly.
+    const closeHandler = (): void => {
+      this.emit('close', this.closeReason());
+    };
+    this.on('newListener', (event, listener) => {
+      if (event === 'message') {
+        if (!this.listenerCount(event)) {
+          this.port.on(event, messageHandler);
+          this.priorityPort.on(event, priorityMessageHandler);
+        }
+        if (this.buffered.length > 0) this.scheduleDrain();
+      } else if (event === 'close') {
+        if (!this.listenerCount(event)) this.port.on(event, closeHandler);
+      } else {
+        this.port.on(event, listener);
+      }
+    });
+    this.on('removeListener', (event, listener) => {
+      if (event === 'message') {
+        if (!this.listenerCount(event)) {
+          this.port.removeListener(event, messageHandler);
+          this.priorityPort.removeListener(event, priorityMessageHandler);
+        }
+      } else if (event === 'close') {
+        if (!this.listenerCount(event)) {
+          this.port.removeListener(event, closeHandler);
+        }
+      } else {
+        this.port.removeListener(event, listener);
+      }
+    });
+
+    // Every port sends its metadata, so that a port that performs a handshake
+    // can tell whether the other port doesn't.
+    const metadata: HandshakeMetadata = {
+      wireVersion,
+      protocol: options?.protocol,
+      version: options?.version,
+      features: options?.features ?? [],
+    };
+    const message: ControlMessage = {type: 'handshake', metadata};
+    this.controlPort.postMessage(message);
+    if (options?.protocol !== undefined) {
+      this.handshake = metadata;
+      this.receiveHandshake(false);
+    }
+  }
+
+  /**
+   * See `MessagePort.postMesage()`.
+   *
+   * If the channel was created with a {@link ChannelOptions.capacity} and that
+   * many messages are already waiting to be received by the other port, this
+   * blocks until the other port receives one. Throws a {@link
+   * TimeoutException} if that takes longer than {@link
+   * PostMessageOptions.timeout}.
+   */
+  postMessage(
+    value: unknown,
+    options?: Transferable[] | PostMessageOptions,
+  ): void {
+    this.checkNotEnded('postMessage');
+    this.checkPriority(options);
+    this.waitForCapacity('postMessage', options);
+    this.sendMessage(value, options);
+  }
+
+  /**
+   * Like {@link postMessage}, but returns `false` without sending the message
+   * rather than blocking if the channel is at capacity. Returns `true` if the
+   * message was sent.
+   */
+  tryPostMessage(
+    value: unknown,
+    options?: Transferable[] | PostMessageOptions,
+  ): boolean {
+    this.checkNotEnded('tryPostMessage');
+    this.checkPriority(options);
+    if (
+      this.capacity !== undefined &&
+      !isHighPriority(options) &&
+      !this.postCounter.waitBelow(this.capacity, 0)
+    ) {
+      return false;
+    }
+    this.sendMessage(value, options);
+    return true;
+  }
+
+  /**
+   * Sends each of `values` to the other port in order, as though by {@link
+   * postMessage}.
+   *
+   * This wakes the other port once for the whole batch rather than once per
+   * message, so it's more efficient for sending many small messages. If the
+   * channel was created with a {@link ChannelOptions.capacity}, this sends as
+   * many messages as there's room for at a time, blocking until the other port
+   * receives more. Throws a {@link TimeoutException} if any such wait takes
+   * longer than {@link PostMessageOptions.timeout}.
+   *
+   * If a value can't be sent, this throws an error once the values before it
+   * have been sent.
+   */
+  postMessages(
+    values: unknown[],
+    options?: Omit<PostMessageOptions, 'transfer' | 'priority'>,
+  ): void {
+    this.checkNotEnded('postMessages');
+    let index = 0;
+    while (index < values.length) {
+      this.waitForCapacity('postMessages', options);
+      // If the channel is closed, the counter no longer reflects the room
+      // that's left, so send one message at a time.
+      const room =
+        this.capacity === undefined
+          ? Infinity
+          : Math.max(1, this.capacity - this.postCounter.value);
+      const end = Math.min(values.length, index + room);
+      const start = index;
+      try {
+        while (index < end) {
+          this.writeMessage(values[index]);
+          index++;
+        }
+      } finally {
+        // Count the messages that were written even if a later one couldn't
+        // be, so that the other port can still receive them.
+        if (index > start) this.signalSent(index - start);
+      }
+    }
+  }
+
+  /**
+   * Returns the message sent by the other port, if one is available. This *does
+   * not* block, and will return `undefined` immediately if no message is
+   * available. In order to distinguish between a message with value `undefined`
+   * and no message, a message is return in an object with a `message` field.
+   *
+   * It does *not* throw an error if the port is closed when this is called;
+   * instead, it just returns `undefined`. It does throw if the next message was
+   * sent with {@link postError}.
+   */
+  receiveMessageIfAvailable(): {message: unknown} | undefined {
+    const buffered = this.takeBuffered();
+    if (buffered) return {message: this.deliver(buffered.message)};
+
+    const data = this.receivePriorityData() ?? this.receiveFromPort();
+    if (!data) {
+      this.checkNotLost();
+      return undefined;
+    }
+    this.receiveCounter.wait();
+    this.receiveCounter.decrement();
+    return {message: this.deliver(this.unwrap(data.message).message)};
+  }
+
+  /**
+   * Blocks and returns the next message sent by the other port. Messages sent
+   * with a {@link PostMessageOptions.priority} of `'high'` are returned before
+   * any others that are waiting.
+   *
+   * Throws a {@link ChannelClosedException} if the channel is closed (or the
+   * other port has ended) and all messages are drained, including if it closes
+   * while this is waiting for a message, unless {@link
+   * ReceiveMessageOptions.closedValue} is passed. If the thread holding the
+   * other port exited without closing it, the error is a {@link
+   * PeerTerminatedException}.
+   *
+   * If the next message was sent with {@link postError}, this throws the
+   * reconstructed error instead. Such messages are never skipped by a {@link
+   * ReceiveMessageOptions.filter}.
+   *
+   * If the channel was created with {@link ChannelOptions.detectDeadlocks} and
+   * no {@link ReceiveMessageOptions.timeout} is passed, this throws a {@link
+   * DeadlockException} if the other port is also blocked waiting for a message
+   * and no messages are in flight.
+   *
+   * If the channel was created with {@link ChannelOptions.strictOrdering}, this
+   * throws a {@link SequenceException} if the next message was lost or
+   * duplicated.
+   */
+  receiveMessage(options?: ReceiveMessageOptions): unknown {
+    this.checkFilter(options);
+    const buffered = this.takeBuffered(options?.filter);
+    if (buffered) return this.receiveResult(buffered, options);
+
+    const deadline = deadlineFor(options?.timeout);
+    for (;;) {
+      if (deadline === undefined && !options?.signal && this.deadlockDetector) {
+        if (!this.block(() => this.waitOrDetectDeadlock())) {
+          throw new DeadlockException(
+            'SyncMessagePort.receiveMessage() deadlocked: both ports are ' +
+              'waiting for a message with none in flight.',
+          );
+        }
+      } else if (
+        !this.block(() => this.waitForMessage(deadline, options?.signal))
+      ) {
+        this.counts.timeouts++;
+        if ('timeoutValue' in options!) return options.timeoutValue;
+        throw new TimeoutException(
+          'SyncMessagePort.receiveMessage() timed out.',
+        );
+      }
+
+      const received = this.takeFromPort();
+      if (!received) break;
+      if (matches(received.message, options?.filter)) {
+        return this.receiveResult(received, options);
+      }
+      this.bufferMessage(received);
+    }
+
+    // The port is closed and all remaining messages are drained.
+    if (options && 'closedValue' in options) return options.closedValue;
+    throw this.closedError();
+  }
+
+  /**
+   * Blocks until at least one message is available, then returns it along with
+   * up to {@link ReceiveMessagesOptions.max} messages in total that are
+   * already available, without waiting for more.
+   *
+   * This updates the channel's counter once for the whole batch rather than
+   * once per message, so it's more efficient for receiving many small
+   * messages. It throws in the same circumstances as {@link receiveMessage}.
+   * If a message other than the first was sent with {@link postError}, the
+   * batch ends before it and the next receive throws it instead.
+   */
+  receiveMessages(options?: ReceiveMessagesOptions): unknown[] {
+    const max = options?.max ?? Infinity;
+    if (max !== Infinity && (!Number.isInteger(max) || max <= 0)) {
+      throw new Error('ReceiveMessagesOptions.max must be a positive integer.');
+    }
+
+    const messages = [
+      this.receiveMessage({timeout: options?.timeout, signal: options?.signal}),
+    ];
+    const received = this.buffered.splice(0, max - 1);
+    received.push(...this.takeAvailableFromPort(max - 1 - received.length));
+    for (let i = 0; i < received.length; i++) {
+      if (received[i].message instanceof ReceivedError) {
+        this.buffered.unshift(...received.slice(i));
+        if (this.listenerCount('message')) this.scheduleDrain();
+        break;
+      }
+      messages.push(this.deliver(received[i].message));
+    }
+    return messages;
+  }
+
+  /**
+   * Like {@link receiveMessage}, but returns a `Promise` rather than blocking
+   * the current thread.
+   *
+   * This consumes messages in the same way as {@link receiveMessage} and
+   * {@link receiveMessageIfAvailable}, so calls to all three may be freely
+   * interleaved. Each message is delivered to exactly one of them.
+   */
+  async receiveMessageAsync(options?: ReceiveMessageOptions): Promise<unknown> {
+    this.checkFilter(options);
+    const buffered = this.takeBuffered(options?.filter);
+    if (buffered) return this.receiveResult(buffered, options);
+
+    const deadline = deadlineFor(options?.timeout);
+    for (;;) {
+      if (!(await this.waitForMessageAsync(deadline, options?.signal))) {
+        this.counts.timeouts++;
+        if ('timeoutValue' in options!) return options.timeoutValue;
+        throw new TimeoutException(
+          'SyncMessagePort.receiveMessageAsync() timed out.',
+        );
+      }
+
+      // A message may have been buffered by a filtered receive while this was
+      // waiting.
+      const buffered = this.takeBuffered(options?.filter);
+      if (buffered) return this.receiveResult(buffered, options);
+
+      const received = this.takeFromPort();
+      if (received) {
+        if (matches(received.message, options?.filter)) {
+          return this.receiveResult(received, options);
+        }
+        this.bufferMessage(received);
+        continue;
+      }
+
+      // If the channel is still open, another receiver consumed the message
+      // that woke this one up, so wait for the next one.
+      if (this.receiveCounter.closed) break;
+    }
+
+    // The port is closed and all remaining messages are drained.
+    if (options && 'closedValue' in options) return options.closedValue;
+    throw this.closedError();
+  }
+
+  /**
+   * Registers a custom error type so that errors of that type sent with {@link
+   * postError} are reconstructed as instances of the same class.
+   *
+   * `encode` converts an error into structured-clonable data, and `decode`
+   * converts that data back into an error. The type must be registered under
+   * the same constructor name on both ports, and applies to subclasses that
+   * aren't registered themselves. Errors of unregistered types are
+   * reconstructed with their name, message, and stack.
+   */
+  registerErrorType<E extends Error>(
+    constructor: ErrorConstructorLike<E>,
+    encode: (error: E) => unknown,
+    decode: (data: unknown) => E,
+  ): void {
+    this.errorCodec.register(constructor, encode, decode);
+  }
+
+  /**
+   * Sends `error` to the other port so that its next receive throws it.
+   *
+   * The error is reconstructed as an instance of its original class if it's a
+   * built-in error type or was registered with {@link registerErrorType}. Its
+   * `cause` chain is sent as well, and its stack is annotated with the ID of
+   * the thread that sent it. If the other port has `'message'` listeners, they
+   * receive it as an `'error'` event instead.
+   *
+   * The error isn't passed through the {@link SyncMessagePortOptions.codec}.
+   */
+  postError(error: Error, options?: Transferable[] | PostMessageOptions): void {
+    this.checkNotEnded('postError');
+    this.checkPriority(options);
+    this.waitForCapacity('postError', options);
+    const envelope: ErrorEnvelope = {
+      [envelopeKey]: 'error',
+      error: this.errorCodec.encode(error),
+    };
+    this.intercept('onSend', error);
+    this.sendData(envelope, transferListFor(options), isHighPriority(options));
+  }
+
+  /**
+   * Blocks and returns the next message sent by the other port for which
+   * `predicate` returns `true`.
+   *
+   * This is equivalent to calling {@link receiveMessage} with `predicate` as
+   * the {@link ReceiveMessageOptions.filter}.
+   */
+  receiveMatching(
+    predicate: (message: unknown) => boolean,
+    options?: ReceiveMessageOptions,
+  ): unknown {
+    return this.receiveMessage({...options, filter: predicate});
+  }
+
+  /**
+   * Asynchronously iterates over messages sent by the other port until the
+   * channel is closed and all messages are drained.
+   *
+   * Messages are consumed using {@link receiveMessageAsync}.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<unknown, void, undefined> {
+    for (;;) {
+      const message = await this.receiveMessageAsync({
+        closedValue: closedSentinel,
+      });
+      if (message === closedSentinel) return;
+      yield message;
+    }
+  }
+
+  /**
+   * Sends `bytes` to the other port through the channel's shared ring buffer,
+   * without structured cloning.
+   *
+   * Byte messages are received only by {@link receiveBytes}, and are ordered
+   * independently of messages sent with {@link postMessage}. If `bytes` doesn't
+   * fit in the free space of the ring buffer, it's sent through an internal
+   * `MessagePort` instead, so this never blocks.
+   *
+   * Throws an error if the channel wasn't created with {@link
+   * ChannelOptions.byteBufferSize}.
+   */
+  postBytes(bytes: Uint8Array): void {
+    if (!this.postRing || !this.bytesPort) throw this.bytesDisabledError();
+    if (this.postRing.write(bytes)) return;
+
+    this.bytesPort.postMessage(bytes);
+    this.postRing.writeExternal();
+  }
+
+  /**
+   * Blocks and returns the next byte message sent by the other port's {@link
+   * postBytes}.
+   *
+   * This handles {@link ReceiveMessageOptions.timeout}, {@link
+   * ReceiveMessageOptions.timeoutValue}, and {@link
+   * ReceiveMessageOptions.closedValue} in the same way as {@link
+   * receiveMessage}.
+   */
+  receiveBytes(): Uint8Array;
+  receiveBytes(
+    options: Pick<
+      ReceiveMessageOptions,
+      'timeout' | 'timeoutValue' | 'closedValue'
+    >,
+  ): unknown;
+  receiveBytes(
+    options?: Pick<
+      ReceiveMessageOptions,
+      'timeout' | 'timeoutValue' | 'closedValue'
+    >,
+  ): unknown {
+    if (!this.receiveRing || !this.bytesPort) throw this.bytesDisabledError();
+
+    const receiveRing = this.receiveRing;
+    if (!this.block(() => receiveRing.wait(options?.timeout))) {
+      this.counts.timeouts++;
+      if ('timeoutValue' in options!) return options.timeoutValue;
+      throw new TimeoutException('SyncMessagePort.receiveBytes() timed out.');
+    }
+
+    const frame = this.receiveRing.read();
+    if (frame === 'external') {
+      return receiveMessageOnPort(this.bytesPort)!.message;
+    } else if (frame) {
+      return frame;
+    }
+
+    // The port is closed and all remaining byte messages are drained.
+    if (options && 'closedValue' in options) return options.closedValue;
+    throw this.closedError();
+  }
+
+  /**
+   * Returns the sub-channel named `name`, opening it if it isn't already open.
+   *
+   * Messages sent on a sub-channel are received only by the sub-channel with
+   * the same name on the other port, and each sub-channel can be waited on
+   * independently. Either port may open a sub-channel first, with any name of
+   * up to 56 bytes. Closing this port also closes all its sub-channels, but not
+   * vice versa. Calling this multiple times with the same name returns the
+   * same sub-channel.
+   *
+   * Sub-channels use the same {@link SyncMessagePortOptions.codec} as this
+   * port. Throws an error if the channel wasn't created with {@link
+   * ChannelOptions.maxSubchannels}, or if that many sub-channels with other
+   * names have already been opened by either port.
+   */
+  openSubchannel(name: string): SyncSubchannel {
+    const open = this.openSubchannels.get(name);
+    if (open) return open;
+
+    const table = this.subchannelTable;
+    if (!table) {
+      throw new Error(
+        "This SyncMessagePort's channel wasn't created with maxSubchannels.",
+      );
+    }
+    const slot = table.claim(name);
+    const postCounter = table.counter(slot, this.side);
+    const receiveCounter = table.counter(slot, 1 - this.side);
+    const subchannel = new SyncSubchannel(name, {
+      post: (value, transferList) =>
+        this.postToSubchannel(slot, postCounter, value, transferList),
+      take: () => this.takeForSubchannel(slot, receiveCounter),
+      wait: timeout => receiveCounter.wait(timeout),
+      get closed() {
+        return receiveCounter.closed;
+      },
+      closedError: () =>
+        table.closed
+          ? this.closedError()
+          : new ChannelClosedException(
+              "The SyncMessagePort's sub-channel is closed.",
+            ),
+      close: () => table.closeSlot(slot),
+    });
+    this.openSubchannels.set(name, subchannel);
+    return subchannel;
+  }
+
+  /**
+   * The number of messages available to be received by this port.
+   *
+   * This includes messages that have been sent by the other port but not yet
+   * received, as well as messages buffered by a {@link
+   * ReceiveMessageOptions.filter}.
+   */
+  get pendingCount(): number {
+    return this.buffered.length + this.receiveCounter.value;
+  }
+
+  /**
+   * The {@link SyncMessagePortOptions.features} supported by both this port and
+   * the other port.
+   *
+   * This is `undefined` if this port wasn't constructed with a {@link
+   * SyncMessagePortOptions.protocol}, or if the other port hasn't been
+   * constructed yet. Throws a {@link HandshakeException} if the handshake
+   * failed.
+   */
+  get negotiatedFeatures(): ReadonlySet<string> | undefined {
+    this.receiveHandshake(false);
+    if (!this.handshake || !this.handshakeVerified) return undefined;
+    const peerFeatures = new Set(this.peerHandshake!.features);
+    return new Set(
+      this.handshake.features.filter(feature => peerFeatures.has(feature)),
+    );
+  }
+
+  /** Whether this port's channel has been closed by either port. */
+  get isClosed(): boolean {
+    return this.receiveCounter.closed;
+  }
+
+  /** Returns statistics about this port's activity, for debugging. */
+  stats(): SyncMessagePortStats {
+    return {
+      ...this.counts,
+      pending: this.pendingCount,
+      closed: this.isClosed,
+    };
+  }
+
+  /**
+   * Closes this port once `worker`, which holds the other port, exits.
+   *
+   * Ports normally detect when the thread holding the other port exits without
+   * closing it, including if it crashes or calls `process.exit()`. This also
+   * covers workers that are stopped with `Worker.terminate()`. Once all
+   * messages are drained, receives on this port return {@link
+   * ReceiveMessageOptions.closedValue} or throw a {@link
+   * PeerTerminatedException}.
+   *
+   * This relies on `worker`'s `'exit'` event, which is only dispatched while
+   * the current thread's event loop is running. It therefore can't wake a
+   * receive that's already blocking this thread when `worker` is terminated:
+   * use {@link ReceiveMessageOptions.timeout} or {@link
+   * ReceiveMessageOptions.signal} if that's a concern.
+   */
+  attachWorker(worker: Worker): void {
+    worker.once('exit', code => {
+      if (this.isClosed) return;
+      this.exitStatus.markPeerExited(code);
+      this.close();
+    });
+  }
+
+  /**
+   * Registers `interceptor` to observe every message sent and received by this
+   * port, and its closure.
+   *
+   * Interceptors are called in the order they're registered. See {@link
+   * createTracer} for an interceptor that reports to `diagnostics_channel`.
+   */
+  use(interceptor: SyncMessagePortInterceptor): void {
+    this.interceptors.push(interceptor);
+  }
+
+  /**
+   * Signals that this port won't send any more messages, while still allowing
+   * it to receive messages from the other port.
+   *
+   * Once the other port receives all the messages this sent, its receives
+   * throw a {@link ChannelClosedException} whose {@link
+   * ChannelClosedException.reason} is `reason`, which must be
+   * structured-clonable. Sending messages from this port after calling this
+   * throws an error.
+   *
+   * This port must still be closed with {@link close} once it's done receiving
+   * messages. If the other port has already ended, this closes it immediately.
+   */
+  end(reason?: unknown): void {
+    if (this.receiveCounter.closed) {
+      this.close(reason);
+      return;
+    }
+    if (this.ended) return;
+
+    this.sendEnding(reason);
+    this.ended = true;
+    this.postCounter.close();
+    this.postRing?.close();
+    this.selectNotifier?.signal();
+    this.deadlockDetector?.signalPeer();
+    this.signalPeerCancellations();
+  }
+
+  /**
+   * See `MessagePort.close()`.
+   *
+   * If `reason` is passed, the other port's receives throw a {@link
+   * ChannelClosedException} with that {@link ChannelClosedException.reason}
+   * once all messages are drained, and it's passed to the other port's
+   * `'close'` listeners. It must be structured-clonable. If {@link end} was
+   * called first, the reason passed to that is used instead.
+   */
+  close(reason?: unknown): void {
+    this.sendEnding(reason);
+    for (const interceptor of this.interceptors) {
+      interceptor.onClose?.();
+    }
+    exitHandlers.delete(this.exitHandlerRef);
+    exitHandlerRegistry.unregister(this.exitHandlerRef);
+    this.receiveControlMessages();
+    this.subchannelTable?.close();
+
+    this.port.close();
+    this.priorityPort.close();
+    this.postCounter.close();
+    this.receiveCounter.close();
+    this.postRing?.close();
+    this.receiveRing?.close();
+    this.bytesPort?.close();
+    this.selectNotifier?.signal();
+    this.deadlockDetector?.signalBoth();
+    this.signalPeerCancellations();
+    for (const {notifier} of this.registeredTokens.values()) {
+      notifier.signal();
+    }
+    this.cancellationPort.close();
+    this.controlPort.close();
+  }
+
+  /**
+   * Returns whether {@link receiveMessage} would return immediately, either
+   * because a message is available or because the channel is closed.
+   */
+  private hasMessageOrClosed(): boolean {
+    return (
+      this.buffered.length > 0 ||
+      this.receiveCounter.value > 0 ||
+      this.receiveCounter.closed
+    );
+  }
+
+  /**
+   * Removes and returns the first buffered message that matches `filter` (or
+   * the first buffered message at all if `filter` isn't passed).
+   */
+  private takeBuffered(
+    filter?: (message: unknown) => boolean,
+  ): ReceivedMessage | undefined {
+    const index = filter
+      ? this.buffered.findIndex(({message}) => filter(message))
+      : this.buffered.length > 0
+        ? 0
+        : -1;
+    if (index === -1) return undefined;
+    return this.buffered.splice(index, 1)[0];
+  }
+
+  /** Adds `received` to {@link buffered} to be consumed later. */
+  private bufferMessage(received: ReceivedMessage): void {
+    this.buffered.push(received);
+    if (this.listenerCount('message')) this.scheduleDrain();
+  }
+
+  /**
+   * Schedules {@link drainBuffered} to run asynchronously, so that listeners
+   * aren't invoked in the middle of a synchronous receive.
+   */
+  private scheduleDrain(): void {
+    if (this.drainScheduled) return;
+    this.drainScheduled = true;
+    setImmediate(() => {
+      this.drainScheduled = false;
+      this.drainBuffered();
+    });
+  }
+
+  /** Emits buffered messages in order for as long as there are listeners. */
+  private drainBuffered(): void {
+    while (this.buffered.length > 0 && this.listenerCount('message')) {
+      this.emitMessage(this.buffered.shift()!);
+    }
+  }
+
+  /**
+   * Emits `received` to listeners along with its {@link MessageMetadata}, or
+   * emits an `'error'` event if it was sent with {@link postError}.
+   */
+  private emitMessage(received: ReceivedMessage): void {
+    let value: unknown;
+    try {
+      value = this.deliver(received.message);
+    } catch (error: unknown) {
+      this.emit('error', error);
+      return;
+    }
+    const metadata: MessageMetadata = {sequence: received.sequence};
+    this.emit('message', value, metadata);
+  }
+
+  /**
+   * Delivers `received` and returns the message, or a {@link ReceivedMessage}
+   * if {@link ReceiveMessageOptions.withMetadata} is set.
+   */
+  private receiveResult(
+    received: ReceivedMessage,
+    options?: ReceiveMessageOptions,
+  ): unknown {
+    const message = this.deliver(received.message);
+    if (!options?.withMetadata) return message;
+    const result: ReceivedMessage = {message, sequence: received.sequence};
+    return result;
+  }
+
+  /**
+   * Records that `message` was received, and returns it or throws the error it
+   * encodes if it was sent with {@link postError}.
+   */
+  private deliver(message: unknown): unknown {
+    this.counts.received++;
+    if (message instanceof ReceivedError) {
+      const error = this.errorCodec.decode(message.error);
+      this.intercept('onReceive', error);
+      throw error;
+    }
+    this.intercept('onReceive', message);
+    return message;
+  }
+
+  /**
+   * Passes `message` to the `hook` of each interceptor registered with {@link
+   * use}.
+   */
+  private intercept(hook: 'onSend' | 'onReceive', message: unknown): void {
+    const info: InterceptedMessageInfo = {blockingTime: this.blockingTime};
+    this.blockingTime = 0;
+    for (const interceptor of this.interceptors) {
+      interceptor[hook]?.(message, info);
+    }
+  }
+
+  /**
+   * Takes the next message from {@link priorityPort} or {@link port} once
+   * {@link receiveCounter} says it's available, or returns `undefined` if
+   * neither port has any messages.
+   */
+  private takeFromPort(): ReceivedMessage | undefined {
+    const data = this.receivePriorityData() ?? this.receiveFromPort();
+    if (!data) {
+      this.checkNotLost();
+      return undefined;
+    }
+    // A high-priority message may be received before the other port has
+    // added it to the main counter.
+    this.receiveCounter.wait();
+    this.receiveCounter.decrement();
+    return this.unwrap(data.message);
+  }
+
+  /**
+   * Like `receiveMessageOnPort(this.port)`, but adds any messages for
+   * sub-channels to {@link subchannelMessages} rather than returning them.
+   */
+  private receiveFromPort(): {message: unknown} | undefined {
+    for (;;) {
+      const data = receiveMessageOnPort(this.port);
+      if (!data || !isSubchannelEnvelope(data.message)) return data;
+      this.queueSubchannelData(data.message);
+    }
+  }
+
+  /**
+   * Takes the next message for the sub-channel in `slot`, whose messages are
+   * counted by `counter`, or returns `undefined` if none has arrived.
+   *
+   * Messages for this port and for other sub-channels that arrive first are
+   * buffered so that they can be received later.
+   */
+  private takeForSubchannel(
+    slot: number,
+    counter: AtomicCounter,
+  ): {message: unknown} | undefined {
+    const queued = this.subchannelMessages.get(slot);
+    if (queued?.length) return {message: queued.shift()};
+
+    for (;;) {
+      const data = receiveMessageOnPort(this.port);
+      if (!data) return undefined;
+
+      const message = data.message;
+      if (!isSubchannelEnvelope(message)) {
+        this.receiveCounter.wait();
+        this.receiveCounter.decrement();
+        this.bufferMessage(this.unwrap(message));
+      } else if (message.slot === slot) {
+        counter.wait();
+        counter.decrement();
+        return {message: this.decode(message.data)};
+      } else {
+        this.queueSubchannelData(message);
+      }
+    }
+  }
+
+  /**
+   * Adds `envelope`, which was taken from {@link port}, to {@link
+   * subchannelMessages} to be received by its sub-channel later.
+   */
+  private queueSubchannelData(envelope: SubchannelEnvelope): void {
+    const slot = envelope.slot;
+    const counter = this.subchannelTable!.counter(slot, 1 - this.side);
+    counter.wait();
+    counter.decrement();
+
+    let queue = this.subchannelMessages.get(slot);
+    if (!queue) {
+      queue = [];
+      this.subchannelMessages.set(slot, queue);
+    }
+    queue.push(this.decode(envelope.data));
+  }
+
+  /**
+   * Sends `value` on the sub-channel in `slot`, whose messages are counted by
+   * `counter`.
+   */
+  private postToSubchannel(
+    slot: number,
+    counter: AtomicCounter,
+    value: unknown,
+    transferList?: Transferable[],
+  ): void {
+    let data = value;
+    if (this.codec) {
+      const encoded = this.codec.encode(value);
+      data = encoded.data;
+      if (encoded.transfer) {
+        transferList = [...(transferList ?? []), ...encoded.transfer];
+      }
+    }
+    const envelope: SubchannelEnvelope = {
+      [envelopeKey]: 'subchannel',
+      slot,
+      data,
+    };
+    // @ts-expect-error: TypeScript gets confused with the overloads.
+    this.port.postMessage(envelope, transferList);
+    counter.increment();
+  }
+
+  /**
+   * Takes the next high-priority message from {@link priorityPort} if {@link
+   * receivePriorityCounter} says one is available, in the same format as
+   * `receiveMessageOnPort()`.
+   *
+   * This doesn't update {@link receiveCounter}, which the caller is responsible
+   * for.
+   */
+  private receivePriorityData(): {message: unknown} | undefined {
+    if (this.receivePriorityCounter.value === 0) return undefined;
+    const data = receiveMessageOnPort(this.priorityPort);
+    if (data) this.receivePriorityCounter.decrement();
+    return data;
+  }
+
+  /**
+   * Takes up to `max` messages from {@link port} that {@link receiveCounter}
+   * says are available, without blocking.
+   */
+  private takeAvailableFromPort(max: number): ReceivedMessage[] {
+    const count = Math.min(max, this.receiveCounter.value);
+    const data: unknown[] = [];
+    while (data.length < count) {
+      const received = this.receivePriorityData() ?? this.receiveFromPort();
+      if (!received) break;
+      data.push(received.message);
+    }
+    if (data.length === 0) return [];
+    this.receiveCounter.subtract(data.length);
+    return data.map(message => this.unwrap(message));
+  }
+
+  /**
+   * Assigns a sequence number to `data` received from {@link port} and decodes
+   * it.
+   *
+   * If {@link strictOrdering} is set, this throws a {@link SequenceException}
+   * if the sequence number sent with `data` isn't the one that's expected.
+   */
+  private unwrap(data: unknown): ReceivedMessage {
+    this.receiveHandshake(true);
+    const sequence = this.nextReceiveSequence;
+    if (this.strictOrdering) {
+      const sequenced = data as SequencedData;
+      if (sequenced.sequence !== sequence) {
+        throw new SequenceException(
+          sequenced.sequence < sequence
+            ? `Message ${sequenced.sequence} was received twice.`
+            : `Messages ${sequence} through ${sequenced.sequence - 1} were ` +
+                'lost.',
+          sequence,
+          sequenced.sequence,
+        );
+      }
+      data = sequenced.data;
+    }
+    this.nextReceiveSequence++;
+    if (isEnvelope(data)) {
+      if (data[envelopeKey] === 'error') {
+        return {message: new ReceivedError(data.error), sequence};
+      }
+      data = data.data;
+    }
+    return {message: this.decode(data), sequence};
+  }
+
+  /**
+   * If {@link strictOrdering} is set, throws a {@link SequenceException} if
+   * {@link receiveCounter} says a message is available when {@link port} has
+   * none.
+   */
+  private checkNotLost(): void {
+    if (
+      this.strictOrdering &&
+      !this.receiveCounter.closed &&
+      this.receiveCounter.value > 0
+    ) {
+      throw new SequenceException(
+        `Message ${this.nextReceiveSequence} was lost.`,
+        this.nextReceiveSequence,
+        undefined,
+      );
+    }
+  }
+
+  /**
+   * Throws an error if `options` has a {@link ReceiveMessageOptions.filter} and
+   * {@link strictOrdering} is set.
+   */
+  private checkFilter(options?: ReceiveMessageOptions): void {
+    if (this.strictOrdering && options?.filter) {
+      throw new Error(
+        'ReceiveMessageOptions.filter may not be used on a channel created ' +
+          'with strictOrdering.',
+      );
+    }
+  }
+
+  /**
+   * Decodes `data` received from {@link port} using the {@link
+   * SyncMessagePortOptions.codec}, if there is one.
+   */
+  private decode(data: unknown): unknown {
+    return this.codec ? this.codec.decode(data) : data;
+  }
+
+  /**
+   * Throws an error if `options` has a {@link PostMessageOptions.priority} of
+   * `'high'` and {@link strictOrdering} is set.
+   */
+  private checkPriority(options?: Transferable[] | PostMessageOptions): void {
+    if (this.strictOrdering && isHighPriority(options)) {
+      throw new Error(
+        'PostMessageOptions.priority may not be used on a channel created ' +
+          'with strictOrdering.',
+      );
+    }
+  }
+
+  /**
+   * Throws an error naming `method` if {@link end} has been called on this
+   * port.
+   */
+  private checkNotEnded(method: string): void {
+    if (this.ended) {
+      throw new Error(
+        `SyncMessagePort.${method}() can't be called after ` +
+          'SyncMessagePort.end().',
+      );
+    }
+  }
+
+  /**
+   * If the channel is at capacity, blocks until it isn't. Throws a {@link
+   * TimeoutException} naming `method` if that takes longer than the timeout in
+   * `options`. High-priority messages never wait.
+   */
+  private waitForCapacity(
+    method: string,
+    options?: Transferable[] | PostMessageOptions,
+  ): void {
+    const timeout = Array.isArray(options) ? undefined : options?.timeout;
+    const capacity = this.capacity;
+    if (
+      capacity !== undefined &&
+      !isHighPriority(options) &&
+      !this.block(() => this.postCounter.waitBelow(capacity, timeout))
+    ) {
+      this.counts.timeouts++;
+      throw new TimeoutException(`SyncMessagePort.${method}() timed out.`);
+    }
+  }
+
+  /**
+   * Encodes `value` using the {@link SyncMessagePortOptions.codec} (if there is
+   * one) and sends it to the other port without checking the capacity.
+   */
+  private sendMessage(
+    value: unknown,
+    options?: Transferable[] | PostMessageOptions,
+  ): void {
+    this.writeMessage(value, transferListFor(options), isHighPriority(options));
+    this.signalSent(1);
+  }
+
+  /**
+   * Like {@link sendMessage}, but doesn't update {@link postCounter} or wake
+   * the other port. Callers must call {@link signalSent} afterwards.
+   */
+  private writeMessage(
+    value: unknown,
+    transferList?: Transferable[],
+    highPriority = false,
+  ): void {
+    this.intercept('onSend', value);
+    if (!this.codec) {
+      this.writeData(escapeData(value), transferList, highPriority);
+      return;
+    }
+
+    const encoded = this.codec.encode(value);
+    this.writeData(
+      escapeData(encoded.data),
+      encoded.transfer
+        ? [...(transferList ?? []), ...encoded.transfer]
+        : transferList,
+      highPriority,
+    );
+  }
+
+  /** Sends already-encoded `data` to the other port. */
+  private sendData(
+    data: unknown,
+    transferList?: Transferable[],
+    highPriority = false,
+  ): void {
+    this.writeData(data, transferList, highPriority);
+    this.signalSent(1);
+  }
+
+  /**
+   * Like {@link sendData}, but doesn't update {@link postCounter} or wake the
+   * other port.
+   *
+   * If `highPriority` is true, this sends `data` on {@link priorityPort} and
+   * updates {@link postPriorityCounter}. That's done before {@link
+   * postCounter} is updated so that a receiver that sees the latter always
+   * sees the former as well.
+   */
+  private writeData(
+    data: unknown,
+    transferList?: Transferable[],
+    highPriority = false,
+  ): void {
+    if (this.strictOrdering) {
+      const sequenced: SequencedData = {sequence: this.counts.sent, data};
+      data = sequenced;
+    }
+    const port = highPriority ? this.priorityPort : this.port;
+    // @ts-expect-error: TypeScript gets confused with the overloads.
+    port.postMessage(data, transferList);
+    if (highPriority) this.postPriorityCounter.increment();
+    this.counts.sent++;
+  }
+
+  /**
+   * Records that `count` messages were written to {@link port} and wakes
+   * anything on the other port that's waiting for them.
+   */
+  private signalSent(count: number): void {
+    this.postCounter.add(count);
+    this.selectNotifier?.signal();
+    this.deadlockDetector?.signalPeer();
+    this.signalPeerCancellations();
+  }
+
+  /**
+   * Waits until a message is available or the channel is closed.
+   *
+   * Returns `false` if that doesn't happen before `deadline`. Throws an {@link
+   * AbortError} if `signal` is cancelled first.
+   */
+  private waitForMessage(
+    deadline?: number,
+    signal?: CancellationToken,
+  ): boolean {
+    if (!signal) return this.receiveCounter.wait(timeoutUntil(deadline));
+
+    const notifier = this.watchCancellation(signal);
+    try {
+      for (;;) {
+        const generation = notifier.generation;
+        if (this.hasMessageOrCancelled(signal)) return true;
+        if (!notifier.wait(generation, timeoutUntil(deadline))) return false;
+      }
+    } finally {
+      this.unwatchCancellation(signal);
+    }
+  }
+
+  /** Like {@link waitForMessage}, but returns a `Promise`. */
+  private async waitForMessageAsync(
+    deadline?: number,
+    signal?: CancellationToken,
+  ): Promise<boolean> {
+    if (!signal) return this.receiveCounter.waitAsync(timeoutUntil(deadline));
+
+    const notifier = this.watchCancellation(signal);
+    try {
+      for (;;) {
+        const generation = notifier.generation;
+        if (this.hasMessageOrCancelled(signal)) return true;
+        if (!(await notifier.waitAsync(generation, timeoutUntil(deadline)))) {
+          return false;
+        }
+      }
+    } finally {
+      this.unwatchCancellation(signal);
+    }
+  }
+
+  /**
+   * Returns whether a message is available or the channel is closed, or throws
+   * an {@link AbortError} if `signal` is cancelled.
+   */
+  private hasMessageOrCancelled(signal: CancellationToken): boolean {
+    if (signal.isCancelled) {
+      throw new AbortError("The SyncMessagePort's receive was cancelled.");
+    }
+    return this.receiveCounter.value > 0 || this.receiveCounter.closed;
+  }
+
+  /**
+   * Asks the other port to signal `token` whenever it sends a message, and
+   * returns a {@link Notifier} for it.
+   *
+   * This must be called *before* checking whether a message is available, so
+   * that the other port can't send a message in between without signaling the
+   * token.
+   */
+  private watchCancellation(token: CancellationToken): Notifier {
+    let registration = this.registeredTokens.get(token.buffer);
+    if (!registration) {
+      this.unregisterIdleTokens();
+      const id = this.nextCancellationId++;
+      const message: CancellationRegistration = {id, buffer: token.buffer};
+      this.cancellationPort.postMessage(message);
+      registration = {id, notifier: new Notifier(token.buffer), waits: 0};
+      this.registeredTokens.set(token.buffer, registration);
+    }
+    registration.waits++;
+    // Count the wait only once the registration is sent, so that the other
+    // port always finds the registration once it sees the count.
+    Atomics.add(this.tokenWaits, this.side, 1);
+    return registration.notifier;
+  }
+
+  /** Undoes {@link watchCancellation}. */
+  private unwatchCancellation(token: CancellationToken): void {
+    this.registeredTokens.get(token.buffer)!.waits--;
+    Atomics.sub(this.tokenWaits, this.side, 1);
+  }
+
+  /**
+   * Asks the other port to stop signaling the registered tokens that no
+   * receives on this port are waiting with.
+   */
+  private unregisterIdleTokens(): void {
+    for (const [buffer, registration] of this.registeredTokens) {
+      if (registration.waits > 0) continue;
+      const message: CancellationRegistration = {id: registration.id};
+      this.cancellationPort.postMessage(message);
+      this.registeredTokens.delete(buffer);
+    }
+  }
+
+  /**
+   * Processes the {@link CancellationRegistration}s sent by the other port and
+   * signals all the tokens it's currently registered.
+   *
+   * This does nothing unless a receive on the other port is waiting with a
+   * token. See {@link ChannelSetup.tokenWaits}.
+   */
+  private signalPeerCancellations(): void {
+    if (Atomics.load(this.tokenWaits, 1 - this.side) === 0) return;
+
+    for (;;) {
+      const registration = receiveMessageOnPort(this.cancellationPort)
+        ?.message as CancellationRegistration | undefined;
+      if (!registration) break;
+      if (registration.buffer) {
+        this.peerCancellations.set(
+          registration.id,
+          new Notifier(registration.buffer),
+        );
+      } else {
+        this.peerCancellations.delete(registration.id);
+      }
+    }
+
+    for (const notifier of this.peerCancellations.values()) {
+      notifier.signal();
+    }
+  }
+
+  /**
+   * Waits until a message is available or the channel is closed, using {@link
+   * deadlockDetector}.
+   *
+   * Returns `false` if this and the other port are deadlocked.
+   */
+  private waitOrDetectDeadlock(): boolean {
+    return this.deadlockDetector!.wait(
+      () => this.receiveCounter.value > 0 || this.receiveCounter.closed,
+      () =>
+        this.receiveCounter.value === 0 &&
+        this.postCounter.value === 0 &&
+        !this.receiveCounter.closed,
+    );
+  }
+
+  /**
+   * Calls `wait`, which may block, and records how long it took in {@link
+   * counts}.
+   */
+  private block(wait: () => boolean): boolean {
+    const start = performance.now();
+    try {
+      return wait();
+    } finally {
+      const duration = performance.now() - start;
+      this.counts.totalBlockingTime += duration;
+      this.counts.lastBlockingTime = duration;
+      this.blockingTime += duration;
+      this.counts.maxBlockingTime = Math.max(
+        this.counts.maxBlockingTime,
+        duration,
+      );
+    }
+  }
+
+  /**
+   * Returns the error thrown when receiving from a closed channel with all
+   * messages drained.
+   */
+  private closedError(): Error {
+    try {
+      this.receiveHandshake(false);
+    } catch (error: unknown) {
+      return error as HandshakeException;
+    }
+
+    const exitCode = this.exitStatus.peerExitCode;
+    return exitCode === undefined
+      ? new ChannelClosedException(
+          "The SyncMessagePort's channel is closed.",
+          this.closeReason(),
+        )
+      : new PeerTerminatedException(
+          `The SyncMessagePort's peer exited with code ${exitCode}.`,
+          exitCode,
+        );
+  }
+
+  /**
+   * If this port performs a handshake and hasn't yet received the other port's
+   * metadata, receives it if it's available and verifies that it's compatible
+   * with {@link handshake}. If it isn't, closes the channel and throws a {@link
+   * HandshakeException}.
+   *
+   * If `required` is `true`, the metadata must be available because a message
+   * has been received from the other port, which always sends its metadata
+   * first.
+   */
+  private receiveHandshake(required: boolean): void {
+    if (!this.handshake || this.handshakeVerified) return;
+    this.receiveControlMessages();
+    const peer = this.peerHandshake;
+    if (!peer && !required) return;
+
+    const error = peer
+      ? handshakeError(this.handshake, peer)
+      : new HandshakeException(
+          "The other port's version of sync-message-port doesn't support " +
+            'handshakes.',
+        );
+    if (error) {
+      if (!this.isClosed) this.close();
+      throw error;
+    }
+    this.handshakeVerified = true;
+  }
+
+  /** Processes all available {@link ControlMessage}s from the other port. */
+  private receiveControlMessages(): void {
+    for (;;) {
+      const message = receiveMessageOnPort(this.controlPort)?.message as
+        ControlMessage | undefined;
+      if (!message) return;
+      if (message.type === 'handshake') {
+        this.peerHandshake = message.metadata;
+      } else {
+        this.peerEnding ??= {reason: message.reason};
+      }
+    }
+  }
+
+  /**
+   * Records that this port is ending with `reason` and sends that to the other
+   * port, unless it's already ending.
+   */
+  private sendEnding(reason: unknown): void {
+    if (this.ending) return;
+    // Post the message before recording it so that if `reason` can't be
+    // cloned, this throws without leaving the port half-closed.
+    const message: ControlMessage = {type: 'end', reason};
+    this.controlPort.postMessage(message);
+    this.ending = {reason};
+  }
+
+  /**
+   * Returns the reason the channel was closed: the one passed by the other
+   * port if it's ended, or otherwise the one passed by this port.
+   */
+  private closeReason(): unknown {
+    this.receiveControlMessages();
+    return (this.peerEnding ?? this.ending)?.reason;
+  }
+
+  /** Returns the error thrown when byte messages aren't enabled. */
+  private bytesDisabledError(): Error {
+    return new Error(
+      'Byte messages require a channel created with ' +
+        'SyncMessagePort.createChannel({byteBufferSize}).',
+    );
+  }
+}
+
+/**
+ * Returns a {@link HandshakeException} describing why `peer` is incompatible
+ * with `own`, or `undefined` if it's compatible.
+ */
+function handshakeError(
+  own: HandshakeMetadata,
+  peer: HandshakeMetadata,
+): HandshakeException | undefined {
+  if (peer.wireVersion !== own.wireVersion) {
+    return new HandshakeException(
+      'The other port uses an incompatible version of sync-message-port.',
+    );
+  } else if (peer.protocol === undefined) {
+    return new HandshakeException(
+      `This port uses protocol "${own.protocol}", but the other port doesn't ` +
+        'specify a protocol.',
+    );
+  } else if (peer.protocol !== own.protocol) {
+    return new HandshakeException(
+      `This port uses protocol "${own.protocol}", but the other port uses ` +
+        `protocol "${peer.protocol}".`,
+    );
+  } else if (peer.version !== own.version) {
+    return new HandshakeException(
+      `This port uses version ${own.version} of protocol "${own.protocol}", ` +
+        `but the other port uses version ${peer.version}.`,
+    );
+  }
+  return undefined;
+}
+
+/** Returns the transfer list specified by the options to a post method. */
+function transferListFor(
+  options: Transferable[] | PostMessageOptions | undefined,
+): Transferable[] | undefined {
+  return Array.isArray(options) ? options : options?.transfer;
+}
+
+/**
+ * Returns whether `options` has a {@link PostMessageOptions.priority} of
+ * `'high'`.
+ */
+function isHighPriority(
+  options: Transferable[] | PostMessageOptions | undefined,
+): boolean {
+  return !Array.isArray(options) && options?.priority === 'high';
+}
+
+/** Returns whether `data` received from a `MessagePort` is an {@link Envelope}. */
+function isEnvelope(data: unknown): data is Envelope {
+  return typeof data === 'object' && data !== null && envelopeKey in data;
+}
+
+/** Returns whether `message` was sent by {@link SyncSubchannel.postMessage}. */
+function isSubchannelEnvelope(message: unknown): message is SubchannelEnvelope {
+  return isEnvelope(message) && message[envelopeKey] === 'subchannel';
+}
+
+/**
+ * Returns `data` for a message passed to {@link SyncMessagePort.postMessage},
+ * wrapped in an {@link EscapedEnvelope} if it would otherwise be mistaken for
+ * an {@link Envelope}.
+ */
+function escapeData(data: unknown): unknown {
+  if (!isEnvelope(data)) return data;
+  const envelope: EscapedEnvelope = {[envelopeKey]: 'escaped', data};
+  return envelope;
+}
+
+/**
+ * Returns whether `message` should be received by a call with the given
+ * {@link ReceiveMessageOptions.filter}.
+ */
+function matches(
+  message: unknown,
+  filter: ((message: unknown) => boolean) | undefined,
+): boolean {
+  return !filter || message instanceof ReceivedError || filter(message);
+}
+
+/**
+ * Returns the absolute time at which a wait of `timeout` milliseconds that
+ * starts now will end, or `undefined` if `timeout` is `undefined`.
+ */
+function deadlineFor(timeout: number | undefined): number | undefined {
+  return timeout === undefined ? undefined : Date.now() + timeout;
+}
+
+/**
+ * Returns the number of milliseconds remaining until `deadline`, or `undefined`
+ * if `deadline` is `undefined`.
+ */
+function timeoutUntil(deadline: number | undefined): number | undefined {
+  return deadline === undefined
+    ? undefined
+    : Math.max(0, deadline - Date.now());
 }
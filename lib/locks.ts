@@ -0,0 +1,351 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {threadId} from 'worker_threads';
+
+import {TimeoutException} from './index';
+
+/** The index of the closed state. */
+const CLOSED = 0;
+
+/**
+ * The index of a word that's incremented whenever any other state changes, and
+ * which waiters block on.
+ */
+const SIGNAL = 1;
+
+/**
+ * The index of a {@link SyncMutex}'s owner or a {@link SyncSemaphore}'s number
+ * of available permits.
+ */
+const STATE = 2;
+
+/** The value of a {@link SyncMutex}'s state when no thread holds it. */
+const UNLOCKED = 0;
+
+/**
+ * A mutual exclusion lock that can be held by one thread at a time.
+ *
+ * A mutex is backed by a `SharedArrayBuffer` returned by {@link allocate}, so it
+ * can be shared between threads by sending its {@link buffer} and passing that
+ * to `new SyncMutex()` on the other thread.
+ *
+ * Like {@link SyncMessagePort}, this can be "open" or "closed"; once it's
+ * closed, any outstanding calls to {@link acquire} on any thread throw an
+ * error.
+ */
+export class SyncMutex {
+  /** Allocates a `SharedArrayBuffer` for a new, unlocked mutex. */
+  static allocate(): SharedArrayBuffer {
+    return new SharedArrayBuffer(12);
+  }
+
+  /**
+   * The underlying Int32Array.
+   *
+   * The first Int32 is the closed state, the second is used to signal changes
+   * to the other state, and the third is one more than the `threadId` of the
+   * thread that holds the mutex, or 0 if none does.
+   */
+  private readonly words: Int32Array;
+
+  constructor(readonly buffer: SharedArrayBuffer) {
+    if (buffer.byteLength !== 12) {
+      throw new Error('SharedArrayBuffer must have a byteLength of 12.');
+    }
+    this.words = new Int32Array(buffer);
+  }
+
+  /** Whether the mutex has been closed. */
+  get isClosed(): boolean {
+    return Atomics.load(this.words, CLOSED) !== 0;
+  }
+
+  /**
+   * Blocks until no other thread holds the mutex, then acquires it.
+   *
+   * Throws a {@link TimeoutException} if that takes longer than `timeout`
+   * milliseconds, or an error if the mutex is closed first or the current
+   * thread already holds it.
+   */
+  acquire(timeout?: number): void {
+    if (Atomics.load(this.words, STATE) === threadId + 1) {
+      throw new Error('The SyncMutex is already held by this thread.');
+    }
+    waitFor(this.words, 'SyncMutex', timeout, () => this.tryLock());
+  }
+
+  /**
+   * Acquires the mutex if no thread holds it, without blocking. Returns whether
+   * the mutex was acquired.
+   *
+   * Throws an error if the mutex is closed.
+   */
+  tryAcquire(): boolean {
+    checkOpen(this.words, 'SyncMutex');
+    return this.tryLock();
+  }
+
+  /**
+   * Releases the mutex, waking a thread waiting to acquire it.
+   *
+   * Throws an error if the current thread doesn't hold the mutex.
+   */
+  release(): void {
+    if (
+      Atomics.compareExchange(this.words, STATE, threadId + 1, UNLOCKED) !==
+      threadId + 1
+    ) {
+      throw new Error("The SyncMutex isn't held by this thread.");
+    }
+    signal(this.words);
+  }
+
+  /**
+   * Closes the mutex.
+   *
+   * This will cause any outstanding calls to {@link acquire} on any thread to
+   * throw an error. The thread that holds the mutex, if any, may still release
+   * it.
+   */
+  close(): void {
+    markClosed(this.words);
+  }
+
+  /** Acquires the mutex if no thread holds it, and returns whether it did. */
+  private tryLock(): boolean {
+    return (
+      Atomics.compareExchange(this.words, STATE, UNLOCKED, threadId + 1) ===
+      UNLOCKED
+    );
+  }
+}
+
+/**
+ * A counting semaphore that limits how many threads can hold a permit at once.
+ *
+ * Unlike {@link SyncMutex}, a permit may be released by any thread, not just
+ * the one that acquired it. Semaphores are shared between threads in the same
+ * way as mutexes, and can be closed in the same way.
+ */
+export class SyncSemaphore {
+  /**
+   * Allocates a `SharedArrayBuffer` for a new semaphore with `permits`
+   * available permits.
+   */
+  static allocate(permits: number): SharedArrayBuffer {
+    if (!Number.isInteger(permits) || permits < 0) {
+      throw new Error('SyncSemaphore permits must be a non-negative integer.');
+    }
+    const buffer = new SharedArrayBuffer(12);
+    new Int32Array(buffer)[STATE] = permits;
+    return buffer;
+  }
+
+  /**
+   * The underlying Int32Array.
+   *
+   * The first Int32 is the closed state, the second is used to signal changes
+   * to the other state, and the third is the number of available permits.
+   */
+  private readonly words: Int32Array;
+
+  constructor(readonly buffer: SharedArrayBuffer) {
+    if (buffer.byteLength !== 12) {
+      throw new Error('SharedArrayBuffer must have a byteLength of 12.');
+    }
+    this.words = new Int32Array(buffer);
+  }
+
+  /** The number of permits currently available. */
+  get availablePermits(): number {
+    return Atomics.load(this.words, STATE);
+  }
+
+  /** Whether the semaphore has been closed. */
+  get isClosed(): boolean {
+    return Atomics.load(this.words, CLOSED) !== 0;
+  }
+
+  /**
+   * Blocks until a permit is available, then acquires it.
+   *
+   * Throws a {@link TimeoutException} if that takes longer than `timeout`
+   * milliseconds, or an error if the semaphore is closed first.
+   */
+  acquire(timeout?: number): void {
+    waitFor(this.words, 'SyncSemaphore', timeout, () => this.tryTake());
+  }
+
+  /**
+   * Acquires a permit if one is available, without blocking. Returns whether a
+   * permit was acquired.
+   *
+   * Throws an error if the semaphore is closed.
+   */
+  tryAcquire(): boolean {
+    checkOpen(this.words, 'SyncSemaphore');
+    return this.tryTake();
+  }
+
+  /** Releases a permit, waking a thread waiting to acquire one. */
+  release(): void {
+    Atomics.add(this.words, STATE, 1);
+    signal(this.words);
+  }
+
+  /**
+   * Closes the semaphore.
+   *
+   * This will cause any outstanding calls to {@link acquire} on any thread to
+   * throw an error.
+   */
+  close(): void {
+    markClosed(this.words);
+  }
+
+  /** Acquires a permit if one is available, and returns whether it did. */
+  private tryTake(): boolean {
+    for (;;) {
+      const permits = Atomics.load(this.words, STATE);
+      if (permits === 0) return false;
+      if (
+        Atomics.compareExchange(this.words, STATE, permits, permits - 1) ===
+        permits
+      ) {
+        return true;
+      }
+    }
+  }
+}
+
+/**
+ * A condition variable that threads holding a {@link SyncMutex} can use to
+ * wait for another thread to change the state that the mutex protects.
+ *
+ * Conditions are shared between threads in the same way as mutexes, and can be
+ * closed in the same way.
+ */
+export class SyncCondition {
+  /** Allocates a `SharedArrayBuffer` for a new condition. */
+  static allocate(): SharedArrayBuffer {
+    return new SharedArrayBuffer(8);
+  }
+
+  /**
+   * The underlying Int32Array.
+   *
+   * The first Int32 is the closed state, and the second is incremented each
+   * time the condition is notified.
+   */
+  private readonly words: Int32Array;
+
+  constructor(readonly buffer: SharedArrayBuffer) {
+    if (buffer.byteLength !== 8) {
+      throw new Error('SharedArrayBuffer must have a byteLength of 8.');
+    }
+    this.words = new Int32Array(buffer);
+  }
+
+  /** Whether the condition has been closed. */
+  get isClosed(): boolean {
+    return Atomics.load(this.words, CLOSED) !== 0;
+  }
+
+  /**
+   * Releases `mutex`, which the current thread must hold, and blocks until
+   * another thread calls {@link notify} or {@link notifyAll}. Then reacquires
+   * `mutex` before returning.
+   *
+   * Like most condition variables, this may occasionally return without being
+   * notified, so callers should check the state they're waiting for in a loop.
+   *
+   * Throws a {@link TimeoutException} if this isn't notified within `timeout`
+   * milliseconds, or an error if the condition is closed first. In both cases,
+   * `mutex` is reacquired first.
+   *
+   * If `mutex` is closed while this is waiting, it can't be reacquired, so this
+   * throws the error from {@link SyncMutex.acquire} instead. In that case, this
+   * returns without holding `mutex` and callers must not release it.
+   */
+  wait(mutex: SyncMutex, timeout?: number): void {
+    checkOpen(this.words, 'SyncCondition');
+    const generation = Atomics.load(this.words, SIGNAL);
+    mutex.release();
+    const result = Atomics.wait(this.words, SIGNAL, generation, timeout);
+    mutex.acquire();
+
+    checkOpen(this.words, 'SyncCondition');
+    if (result === 'timed-out') {
+      throw new TimeoutException('SyncCondition.wait() timed out.');
+    }
+  }
+
+  /** Wakes one thread waiting on this condition, if any are. */
+  notify(): void {
+    Atomics.add(this.words, SIGNAL, 1);
+    Atomics.notify(this.words, SIGNAL, 1);
+  }
+
+  /** Wakes all threads waiting on this condition. */
+  notifyAll(): void {
+    signal(this.words);
+  }
+
+  /**
+   * Closes the condition.
+   *
+   * This will cause any outstanding calls to {@link wait} on any thread to
+   * throw an error once they reacquire their mutex.
+   */
+  close(): void {
+    markClosed(this.words);
+  }
+}
+
+/**
+ * Calls `tryAcquire` until it returns `true`, blocking until `words` is
+ * signaled between attempts.
+ *
+ * Throws a {@link TimeoutException} if that takes longer than `timeout`
+ * milliseconds, or an error if `words` is closed first. `name` is the name of
+ * the class that's being acquired, for use in those errors.
+ */
+function waitFor(
+  words: Int32Array,
+  name: string,
+  timeout: number | undefined,
+  tryAcquire: () => boolean,
+): void {
+  const deadline = timeout === undefined ? undefined : Date.now() + timeout;
+  for (;;) {
+    const generation = Atomics.load(words, SIGNAL);
+    checkOpen(words, name);
+    if (tryAcquire()) return;
+
+    const remaining =
+      deadline === undefined ? undefined : Math.max(0, deadline - Date.now());
+    if (Atomics.wait(words, SIGNAL, generation, remaining) === 'timed-out') {
+      throw new TimeoutException(`${name}.acquire() timed out.`);
+    }
+  }
+}
+
+/** Throws an error naming `name` if `words` is closed. */
+function checkOpen(words: Int32Array, name: string): void {
+  if (Atomics.load(words, CLOSED) !== 0) {
+    throw new Error(`The ${name} is closed.`);
+  }
+}
+
+/** Wakes all threads waiting for `words` to change. */
+function signal(words: Int32Array): void {
+  Atomics.add(words, SIGNAL, 1);
+  Atomics.notify(words, SIGNAL);
+}
+
+/** Marks `words` as closed, waking all threads waiting for it to change. */
+function markClosed(words: Int32Array): void {
+  if (Atomics.compareExchange(words, CLOSED, 0, 1) === 0) signal(words);
+}
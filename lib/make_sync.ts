@@ -0,0 +1,89 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as p from 'path';
+import {MessagePort, Worker, WorkerOptions} from 'worker_threads';
+
+import {SyncMessagePort} from './index';
+import {SyncRpcClient} from './rpc';
+
+/** Options that can be passed to {@link makeSync}. */
+export interface MakeSyncOptions {
+  /**
+   * Additional options for the worker that loads the module, such as
+   * `execArgv` or `resourceLimits`.
+   *
+   * These only take effect when the worker is first spawned. Later calls to
+   * {@link makeSync} for the same module reuse that worker.
+   */
+  workerOptions?: Omit<WorkerOptions, 'eval' | 'transferList' | 'workerData'>;
+}
+
+/** The data passed to `make_sync_worker` when it's spawned. */
+export interface MakeSyncWorkerData {
+  /** The port to serve RPC requests on. */
+  port: MessagePort;
+
+  /** The path of the module whose exports are served. */
+  modulePath: string;
+}
+
+/** The RPC clients for workers spawned by {@link makeSync}, indexed by path. */
+const clients = new Map<string, SyncRpcClient>();
+
+/**
+ * Returns a function that synchronously calls the async function exported as
+ * `exportName` from the module at `modulePath`.
+ *
+ * The module is loaded with `require()` in a worker, which is spawned the first
+ * time {@link makeSync} is called for `modulePath` and shared by every function
+ * returned for that module. Relative paths (those starting with `./` or `../`)
+ * are resolved against the current working directory. Other paths must be
+ * absolute or resolvable from this package, such as the names of installed
+ * packages.
+ *
+ * The returned function blocks until the export's returned `Promise` settles,
+ * then returns its value or throws its rejection. Arguments and return values
+ * must be structured-clonable. The worker doesn't keep the process alive.
+ */
+export function makeSync<F extends (...args: never[]) => unknown>(
+  modulePath: string,
+  exportName: string,
+  options?: MakeSyncOptions,
+): (...args: Parameters<F>) => Awaited<ReturnType<F>> {
+  // Resolve file paths so that they aren't resolved relative to this package,
+  // and so that each module only has one entry in `clients`.
+  const resolved =
+    p.isAbsolute(modulePath) || /^\.\.?([/\\]|$)/.test(modulePath)
+      ? p.resolve(modulePath)
+      : modulePath;
+
+  let client = clients.get(resolved);
+  if (!client) {
+    const channel = SyncMessagePort.createChannel();
+    const port = new SyncMessagePort(channel.port1);
+    const workerData: MakeSyncWorkerData = {
+      port: channel.port2,
+      modulePath: resolved,
+    };
+    const worker = new Worker(
+      p.join(__dirname, `make_sync_worker${p.extname(__filename)}`),
+      {
+        ...options?.workerOptions,
+        workerData,
+        transferList: [channel.port2],
+      },
+    );
+    port.attachWorker(worker);
+    // Spawn a new worker the next time one is needed.
+    worker.once('exit', () => clients.delete(resolved));
+    worker.unref();
+    client = new SyncRpcClient(port);
+    clients.set(resolved, client);
+  }
+
+  const rpcClient = client;
+  return (...args) =>
+    rpcClient.call(exportName, ...args) as Awaited<ReturnType<F>>;
+}
@@ -0,0 +1,25 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+// The entrypoint for workers spawned by `makeSync()`.
+
+import {workerData} from 'worker_threads';
+
+import {SyncMessagePort} from './index';
+import {MakeSyncWorkerData} from './make_sync';
+import {SyncRpcHandler, SyncRpcServer} from './rpc';
+
+const {port: rawPort, modulePath} = workerData as MakeSyncWorkerData;
+const port = new SyncMessagePort(rawPort);
+
+try {
+  new SyncRpcServer(
+    port,
+    require(modulePath) as Record<string, SyncRpcHandler>,
+  );
+} catch (error: unknown) {
+  // Report the failure to the first call rather than leaving it blocked.
+  port.postError(error as Error);
+  port.close();
+}
@@ -0,0 +1,62 @@
+import {waitAsync} from './wait_async';
+
+/**
+ * A word in a `SharedArrayBuffer` that any number of threads can signal and
+ * that callers can synchronously wait to be signaled.
+ *
+ * Unlike {@link AtomicCounter}, this carries no state of its own. It's used to
+ * wake a single waiter when any one of several other states changes.
+ */
+export class Notifier {
+  /**
+   * The underlying Int32Array.
+   *
+   * The first Int32 is incremented each time the notifier is signaled.
+   */
+  private readonly buffer: Int32Array;
+
+  constructor(buffer: SharedArrayBuffer) {
+    if (buffer.byteLength < 4) {
+      throw new Error(
+        'SharedArrayBuffer must have a byteLength of at least 4.',
+      );
+    }
+    this.buffer = new Int32Array(buffer, 0, 1);
+  }
+
+  /**
+   * The number of times this has been signaled (modulo 2^32).
+   *
+   * This should be read *before* checking whether there's any state to handle,
+   * and then passed to {@link wait} to avoid missing a signal in between.
+   */
+  get generation(): number {
+    return Atomics.load(this.buffer, 0);
+  }
+
+  /** Wakes all threads waiting on this notifier. */
+  signal(): void {
+    Atomics.add(this.buffer, 0, 1);
+    Atomics.notify(this.buffer, 0);
+  }
+
+  /**
+   * Waits until this is signaled after {@link generation} returned
+   * `generation`.
+   *
+   * Returns `false` if it isn't signaled within `timeout` milliseconds, and
+   * `true` otherwise.
+   */
+  wait(generation: number, timeout?: number): boolean {
+    return Atomics.wait(this.buffer, 0, generation, timeout) !== 'timed-out';
+  }
+
+  /**
+   * Like {@link wait}, but returns a `Promise` rather than blocking the current
+   * thread.
+   */
+  async waitAsync(generation: number, timeout?: number): Promise<boolean> {
+    const result = waitAsync(this.buffer, 0, generation, timeout);
+    return (result.async ? await result.value : result.value) !== 'timed-out';
+  }
+}
@@ -0,0 +1,220 @@
+/** The index of the number of unread frames in the header. */
+const FRAMES = 0;
+
+/** The index of the number of bytes of the ring occupied by unread frames. */
+const USED = 1;
+
+/** The index of the closed state in the header. */
+const CLOSED = 2;
+
+/** The index of the byte offset of the next frame to write. */
+const WRITE = 3;
+
+/** The index of the byte offset of the next frame to read. */
+const READ = 4;
+
+/**
+ * The index of a word that's incremented whenever any other state changes, and
+ * which waiters block on.
+ */
+const SIGNAL = 5;
+
+/**
+ * The index of the number of out-of-band payloads whose frames didn't fit in
+ * the ring. These logically follow all the frames in the ring, so no more
+ * frames are written until the reader has consumed them.
+ */
+const DEFERRED = 6;
+
+/** The size in bytes of the header that precedes the ring's data. */
+const HEADER_BYTES = 32;
+
+/**
+ * The length written in place of a frame's length to indicate that its payload
+ * was too large for the ring and was sent out-of-band.
+ */
+const EXTERNAL_FRAME = -1;
+
+/**
+ * A single-producer, single-consumer queue of byte frames stored in a
+ * `SharedArrayBuffer`, which callers can synchronously listen for becoming
+ * non-empty.
+ *
+ * Like {@link AtomicCounter}, this can be "open" or "closed"; once it's closed,
+ * {@link wait} will no longer block.
+ */
+export class RingBuffer {
+  /**
+   * Allocates a `SharedArrayBuffer` for a ring that can hold `capacity` bytes
+   * of frames, rounded up to a multiple of four.
+   */
+  static allocate(capacity: number): SharedArrayBuffer {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new Error('Ring buffer capacity must be a positive integer.');
+    }
+    return new SharedArrayBuffer(HEADER_BYTES + Math.ceil(capacity / 4) * 4);
+  }
+
+  /**
+   * The ring's header.
+   *
+   * This tracks the number of unread frames, the number of bytes they occupy,
+   * the closed state, the write and read offsets into {@link data}, a word
+   * that's used to signal changes to the other state, and the number of
+   * deferred out-of-band frames.
+   */
+  private readonly header: Int32Array;
+
+  /** The ring's data, as bytes. */
+  private readonly data: Uint8Array;
+
+  /** The ring's data, as four-byte words. Used to read and write lengths. */
+  private readonly words: Int32Array;
+
+  /** The number of bytes available in {@link data}. */
+  private readonly capacity: number;
+
+  constructor(buffer: SharedArrayBuffer) {
+    if (buffer.byteLength <= HEADER_BYTES || buffer.byteLength % 4 !== 0) {
+      throw new Error('SharedArrayBuffer was not allocated as a RingBuffer.');
+    }
+    this.header = new Int32Array(buffer, 0, HEADER_BYTES / 4);
+    this.data = new Uint8Array(buffer, HEADER_BYTES);
+    this.words = new Int32Array(buffer, HEADER_BYTES);
+    this.capacity = this.data.length;
+  }
+
+  /**
+   * Writes `bytes` as a single frame.
+   *
+   * Returns `false` without writing anything if there isn't currently enough
+   * room in the ring for the frame, or if earlier out-of-band frames are still
+   * waiting to be read. Frames are padded to a multiple of four bytes, plus
+   * four bytes for their length.
+   */
+  write(bytes: Uint8Array): boolean {
+    const frameLength = 4 + Math.ceil(bytes.length / 4) * 4;
+    if (
+      Atomics.load(this.header, DEFERRED) !== 0 ||
+      this.capacity - Atomics.load(this.header, USED) < frameLength
+    ) {
+      return false;
+    }
+
+    const offset = Atomics.load(this.header, WRITE);
+    this.words[offset / 4] = bytes.length;
+    const start = (offset + 4) % this.capacity;
+    const firstPart = Math.min(bytes.length, this.capacity - start);
+    this.data.set(bytes.subarray(0, firstPart), start);
+    this.data.set(bytes.subarray(firstPart), 0);
+    this.commitWrite(offset, frameLength);
+    return true;
+  }
+
+  /**
+   * Writes a frame indicating that the next payload was sent out-of-band.
+   *
+   * This never blocks. If the ring is too full for the frame, it's deferred
+   * until the reader has read everything that's in the ring.
+   */
+  writeExternal(): void {
+    if (
+      Atomics.load(this.header, DEFERRED) !== 0 ||
+      this.capacity - Atomics.load(this.header, USED) < 4
+    ) {
+      Atomics.add(this.header, DEFERRED, 1);
+      this.signal();
+      return;
+    }
+
+    const offset = Atomics.load(this.header, WRITE);
+    this.words[offset / 4] = EXTERNAL_FRAME;
+    this.commitWrite(offset, 4);
+  }
+
+  /**
+   * Reads the next frame.
+   *
+   * Returns the frame's bytes, `'external'` if the frame's payload was sent
+   * out-of-band, or `undefined` if there are no frames available.
+   */
+  read(): Uint8Array | 'external' | undefined {
+    if (Atomics.load(this.header, FRAMES) === 0) {
+      if (Atomics.load(this.header, DEFERRED) === 0) return undefined;
+      Atomics.sub(this.header, DEFERRED, 1);
+      this.signal();
+      return 'external';
+    }
+
+    const offset = Atomics.load(this.header, READ);
+    const length = this.words[offset / 4];
+    if (length === EXTERNAL_FRAME) {
+      this.commitRead(offset, 4);
+      return 'external';
+    }
+
+    const bytes = new Uint8Array(length);
+    const start = (offset + 4) % this.capacity;
+    const firstPart = Math.min(length, this.capacity - start);
+    bytes.set(this.data.subarray(start, start + firstPart));
+    bytes.set(this.data.subarray(0, length - firstPart), firstPart);
+    this.commitRead(offset, 4 + Math.ceil(length / 4) * 4);
+    return bytes;
+  }
+
+  /**
+   * Closes the ring.
+   *
+   * This will cause any outstanding calls to {@link wait} on any thread to
+   * return `true` immediately.
+   */
+  close(): void {
+    if (Atomics.compareExchange(this.header, CLOSED, 0, 1) === 0) {
+      this.signal();
+    }
+  }
+
+  /**
+   * Waits until there's a frame to read or the ring is closed.
+   *
+   * Returns `true` when there's a frame *or* when it's closed. Returns `false`
+   * if the ring remains empty for `timeout` milliseconds.
+   */
+  wait(timeout?: number): boolean {
+    for (;;) {
+      const signal = Atomics.load(this.header, SIGNAL);
+      if (
+        Atomics.load(this.header, FRAMES) !== 0 ||
+        Atomics.load(this.header, DEFERRED) !== 0 ||
+        Atomics.load(this.header, CLOSED) !== 0
+      ) {
+        return true;
+      }
+      if (Atomics.wait(this.header, SIGNAL, signal, timeout) === 'timed-out') {
+        return false;
+      }
+    }
+  }
+
+  /** Publishes a frame of `frameLength` bytes written at `offset`. */
+  private commitWrite(offset: number, frameLength: number): void {
+    Atomics.store(this.header, WRITE, (offset + frameLength) % this.capacity);
+    Atomics.add(this.header, USED, frameLength);
+    Atomics.add(this.header, FRAMES, 1);
+    this.signal();
+  }
+
+  /** Releases a frame of `frameLength` bytes read from `offset`. */
+  private commitRead(offset: number, frameLength: number): void {
+    Atomics.store(this.header, READ, (offset + frameLength) % this.capacity);
+    Atomics.sub(this.header, FRAMES, 1);
+    Atomics.sub(this.header, USED, frameLength);
+    this.signal();
+  }
+
+  /** Wakes any threads waiting for this ring's state to change. */
+  private signal(): void {
+    Atomics.add(this.header, SIGNAL, 1);
+    Atomics.notify(this.header, SIGNAL);
+  }
+}
@@ -0,0 +1,233 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {
+  ReceiveMessageOptions,
+  SyncMessagePort,
+  TimeoutException,
+} from './index';
+
+/** A request sent from a {@link SyncRpcClient} to a {@link SyncRpcServer}. */
+interface RpcRequest {
+  type: 'rpc-request';
+  id: number;
+  method: string;
+  args: unknown[];
+}
+
+/** A response sent from a {@link SyncRpcServer} to a {@link SyncRpcClient}. */
+type RpcResponse =
+  | {type: 'rpc-result'; id: number; result: unknown}
+  | {type: 'rpc-error'; id: number; error: SerializedError};
+
+/**
+ * A thrown value as it's sent across the channel.
+ *
+ * `Error`s are flattened into their name, message, and stack so that they
+ * survive structured cloning intact. Any other thrown value is sent as-is.
+ */
+type SerializedError =
+  | {isError: true; name: string; message: string; stack?: string}
+  | {isError: false; value: unknown};
+
+/**
+ * A function that handles calls to a single method of a {@link SyncRpcServer}.
+ *
+ * This may return a `Promise`, in which case the response isn't sent until the
+ * `Promise` settles.
+ */
+export type SyncRpcHandler = (...args: never[]) => unknown;
+
+/** Sentinel values used to detect when a call times out or closes. */
+const timedOut = Symbol('timedOut');
+const closed = Symbol('closed');
+
+/**
+ * The blocking end of a remote procedure call channel.
+ *
+ * This sends requests to a {@link SyncRpcServer} on the other side of a
+ * `SyncMessagePort` and synchronously waits for the corresponding responses.
+ * Other messages that arrive in the meantime are buffered by the port, so they
+ * can still be received once the call returns. Because of that, the port's
+ * channel can't be created with {@link ChannelOptions.strictOrdering}.
+ */
+export class SyncRpcClient {
+  /** The ID to use for the next request. */
+  private nextId = 0;
+
+  /**
+   * Creates a client that sends requests over `port`.
+   *
+   * The `options` are used for every call made through {@link call}.
+   */
+  constructor(
+    private readonly port: SyncMessagePort,
+    private readonly options?: ReceiveMessageOptions,
+  ) {}
+
+  /**
+   * Calls `method` on the remote server with `args` and blocks until it
+   * returns.
+   *
+   * If the remote method throws (or returns a rejected `Promise`), this throws
+   * the same error. `Error`s are reconstructed with their original name,
+   * message, and stack.
+   */
+  call(method: string, ...args: unknown[]): unknown {
+    return this.callWithOptions(this.options, method, ...args);
+  }
+
+  /**
+   * Like {@link call}, but uses `options` rather than the options passed to
+   * the constructor.
+   *
+   * The {@link ReceiveMessageOptions.timeout} covers the entire call, not just
+   * a single message.
+   */
+  callWithOptions(
+    options: ReceiveMessageOptions | undefined,
+    method: string,
+    ...args: unknown[]
+  ): unknown {
+    const id = this.nextId++;
+    this.port.postMessage({type: 'rpc-request', id, method, args});
+
+    const deadline =
+      options?.timeout === undefined ? undefined : Date.now() + options.timeout;
+    for (;;) {
+      const response = this.port.receiveMessage({
+        timeout:
+          deadline === undefined
+            ? undefined
+            : Math.max(0, deadline - Date.now()),
+        timeoutValue: timedOut,
+        closedValue: closed,
+        // Responses to earlier calls that timed out are also received here so
+        // that they can be discarded rather than buffered forever.
+        filter: message => isRpcResponse(message) && message.id <= id,
+      });
+
+      if (response === timedOut) {
+        if (options && 'timeoutValue' in options) return options.timeoutValue;
+        throw new TimeoutException(
+          `SyncRpcClient.call("${method}") timed out.`,
+        );
+      } else if (response === closed) {
+        if (options && 'closedValue' in options) return options.closedValue;
+        throw new Error("The SyncRpcClient's channel is closed.");
+      }
+
+      // Discard responses to earlier calls that timed out.
+      const rpcResponse = response as RpcResponse;
+      if (rpcResponse.id !== id) continue;
+
+      if (rpcResponse.type === 'rpc-result') return rpcResponse.result;
+      throw deserializeError(rpcResponse.error);
+    }
+  }
+}
+
+/**
+ * The handling end of a remote procedure call channel.
+ *
+ * This asynchronously listens for requests from a {@link SyncRpcClient} on the
+ * other side of a `SyncMessagePort`, dispatches them to the corresponding
+ * handlers, and sends back their results.
+ */
+export class SyncRpcServer {
+  /** The listener registered on the port. */
+  private readonly listener = (message: unknown): void => {
+    if (isRpcRequest(message)) void this.handle(message);
+  };
+
+  /** Creates a server that responds to requests sent over `port`. */
+  constructor(
+    private readonly port: SyncMessagePort,
+    private readonly handlers: Record<string, SyncRpcHandler>,
+  ) {
+    this.port.on('message', this.listener);
+  }
+
+  /** Stops responding to requests. This doesn't close the underlying port. */
+  close(): void {
+    this.port.removeListener('message', this.listener);
+  }
+
+  /** Runs the handler for `request` and posts its response. */
+  private async handle(request: RpcRequest): Promise<void> {
+    let response: RpcResponse;
+    try {
+      if (
+        !Object.prototype.hasOwnProperty.call(this.handlers, request.method)
+      ) {
+        throw new Error(`Unknown RPC method "${request.method}".`);
+      }
+      const handler = this.handlers[request.method] as (
+        ...args: unknown[]
+      ) => unknown;
+      const result = await handler(...request.args);
+      response = {type: 'rpc-result', id: request.id, result};
+    } catch (error: unknown) {
+      response = {
+        type: 'rpc-error',
+        id: request.id,
+        error: serializeError(error),
+      };
+    }
+
+    try {
+      this.port.postMessage(response);
+    } catch (error: unknown) {
+      // The response couldn't be sent, usually because the result isn't
+      // structured-clonable, so send the reason instead.
+      const fallback: RpcResponse = {
+        type: 'rpc-error',
+        id: request.id,
+        error: serializeError(error),
+      };
+      try {
+        this.port.postMessage(fallback);
+      } catch {
+        // The port can't send messages at all, for example because
+        // `SyncMessagePort.end()` was called, so there's no way to respond.
+      }
+    }
+  }
+}
+
+/** Returns whether `message` is an {@link RpcRequest}. */
+function isRpcRequest(message: unknown): message is RpcRequest {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as RpcRequest).type === 'rpc-request'
+  );
+}
+
+/** Returns whether `message` is an {@link RpcResponse}. */
+function isRpcResponse(message: unknown): message is RpcResponse {
+  if (typeof message !== 'object' || message === null) return false;
+  const type = (message as RpcResponse).type;
+  return type === 'rpc-result' || type === 'rpc-error';
+}
+
+/** Converts a thrown value into a form that survives structured cloning. */
+function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) return {isError: false, value: error};
+  return {
+    isError: true,
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+  };
+}
+
+/** Reconstructs a thrown value serialized by {@link serializeError}. */
+function deserializeError(error: SerializedError): unknown {
+  if (!error.isError) return error.value;
+  const result = new Error(error.message);
+  result.name = error.name;
+  if (error.stack !== undefined) result.stack = error.stack;
+  return result;
+}
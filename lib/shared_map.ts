@@ -0,0 +1,318 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as v8 from 'v8';
+
+import {TimeoutException} from './index';
+
+/** The index of the lock in the header. */
+const LOCK = 0;
+
+/**
+ * The index of a word that's incremented whenever an entry is set or deleted,
+ * and which {@link SyncSharedMap.waitForKey} blocks on.
+ */
+const SIGNAL = 1;
+
+/** The index of the number of bytes of data occupied by records. */
+const USED = 2;
+
+/** The size in bytes of the header that precedes the map's data. */
+const HEADER_BYTES = 16;
+
+/** The state of a lock that isn't held. */
+const UNLOCKED = 0;
+
+/** The state of a lock that's held with no other threads waiting for it. */
+const LOCKED = 1;
+
+/** The state of a lock that's held while other threads may be waiting for it. */
+const CONTENDED = 2;
+
+/** The index within a record of its state: {@link LIVE} or {@link DELETED}. */
+const STATE = 0;
+
+/** The index within a record of the length of its key in bytes. */
+const KEY_LENGTH = 1;
+
+/** The index within a record of the length of its value in bytes. */
+const VALUE_LENGTH = 2;
+
+/** The size in bytes of the header that precedes each record's key. */
+const RECORD_HEADER_BYTES = 12;
+
+/** The state of a record that holds a current entry. */
+const LIVE = 1;
+
+/** The state of a record whose entry has been deleted or overwritten. */
+const DELETED = 0;
+
+/** The default size in bytes of a map's `SharedArrayBuffer`. */
+const DEFAULT_BYTE_LENGTH = 64 * 1024;
+
+/**
+ * A map from strings to structured-clonable values that's stored in a
+ * `SharedArrayBuffer`, so that any thread can synchronously read and write it
+ * without sending messages to the thread that created it.
+ *
+ * A map can be shared between threads by sending its {@link buffer} and
+ * passing that to `new SyncSharedMap()` on the other thread. Values are
+ * serialized with `v8.serialize()` and stored in the buffer, so each read
+ * returns a new copy. Every operation holds a lock on the whole map, so this
+ * is best suited to small maps that are read more often than they're written.
+ */
+export class SyncSharedMap {
+  /**
+   * The map's header.
+   *
+   * This tracks the lock, a word that's used to signal changes to the map's
+   * entries, and the number of bytes of {@link data} that are in use.
+   */
+  private readonly header: Int32Array;
+
+  /**
+   * The map's data, as bytes.
+   *
+   * This holds a sequence of records, each of which is made up of a header, a
+   * UTF-8 key, and a serialized value. Records are padded to a multiple of
+   * four bytes. Deleted records are left in place until there's no room for a
+   * new one, at which point the live records are moved to close the gaps.
+   */
+  private readonly data: Buffer;
+
+  /** The map's data, as four-byte words. Used to read and write headers. */
+  private readonly words: Int32Array;
+
+  /**
+   * Creates a new empty map, or a copy of an existing map if `buffer` is the
+   * {@link buffer} of a map from any thread.
+   *
+   * A new map's buffer is 64KiB by default. To create a map with a different
+   * capacity, pass a new `SharedArrayBuffer` of the desired size. Its size
+   * must be a multiple of four.
+   */
+  constructor(readonly buffer = new SharedArrayBuffer(DEFAULT_BYTE_LENGTH)) {
+    if (buffer.byteLength <= HEADER_BYTES || buffer.byteLength % 4 !== 0) {
+      throw new Error(
+        `SharedArrayBuffer must have a byteLength greater than ${HEADER_BYTES} ` +
+          'that is a multiple of 4.',
+      );
+    }
+    this.header = new Int32Array(buffer, 0, HEADER_BYTES / 4);
+    this.data = Buffer.from(buffer, HEADER_BYTES);
+    this.words = new Int32Array(buffer, HEADER_BYTES);
+  }
+
+  /** Returns the value for `key`, or `undefined` if there isn't one. */
+  get(key: string): unknown {
+    const value = this.read(Buffer.from(key));
+    return value && v8.deserialize(value);
+  }
+
+  /** Returns whether the map has an entry for `key`. */
+  has(key: string): boolean {
+    return this.withLock(() => this.find(Buffer.from(key)) !== -1);
+  }
+
+  /**
+   * Sets the value for `key` to `value`, which must be structured-clonable.
+   *
+   * Throws an error if there isn't enough room in the map's buffer for the
+   * entry, in which case the map is left unchanged.
+   */
+  set(key: string, value: unknown): void {
+    const keyBytes = Buffer.from(key);
+    const valueBytes = v8.serialize(value);
+    const length = recordLength(keyBytes.length, valueBytes.length);
+    this.withLock(() => {
+      const existing = this.find(keyBytes);
+      if (this.liveBytes(existing) + length > this.data.length) {
+        throw new Error(
+          `SyncSharedMap doesn't have room for an entry with key "${key}".`,
+        );
+      }
+
+      if (existing !== -1) this.words[existing / 4 + STATE] = DELETED;
+      if (this.header[USED] + length > this.data.length) this.compact();
+
+      const offset = this.header[USED];
+      const words = offset / 4;
+      this.words[words + STATE] = LIVE;
+      this.words[words + KEY_LENGTH] = keyBytes.length;
+      this.words[words + VALUE_LENGTH] = valueBytes.length;
+      const keyStart = offset + RECORD_HEADER_BYTES;
+      this.data.set(keyBytes, keyStart);
+      this.data.set(valueBytes, keyStart + padded(keyBytes.length));
+      this.header[USED] = offset + length;
+    });
+    this.signal();
+  }
+
+  /**
+   * Removes the entry for `key`. Returns whether there was such an entry.
+   */
+  delete(key: string): boolean {
+    const deleted = this.withLock(() => {
+      const offset = this.find(Buffer.from(key));
+      if (offset === -1) return false;
+      this.words[offset / 4 + STATE] = DELETED;
+      return true;
+    });
+    if (deleted) this.signal();
+    return deleted;
+  }
+
+  /**
+   * Returns the value for `key`, blocking until another thread sets it if
+   * there isn't one yet.
+   *
+   * Throws a {@link TimeoutException} if the key isn't set within `timeout`
+   * milliseconds.
+   */
+  waitForKey(key: string, timeout?: number): unknown {
+    const keyBytes = Buffer.from(key);
+    const deadline = timeout === undefined ? undefined : Date.now() + timeout;
+    for (;;) {
+      const signal = Atomics.load(this.header, SIGNAL);
+      const value = this.read(keyBytes);
+      if (value) return v8.deserialize(value);
+
+      const remaining =
+        deadline === undefined ? undefined : Math.max(0, deadline - Date.now());
+      if (
+        Atomics.wait(this.header, SIGNAL, signal, remaining) === 'timed-out'
+      ) {
+        throw new TimeoutException('SyncSharedMap.waitForKey() timed out.');
+      }
+    }
+  }
+
+  /**
+   * Returns a copy of the serialized value for `key`, or `undefined` if there
+   * isn't one.
+   */
+  private read(key: Buffer): Buffer | undefined {
+    return this.withLock(() => {
+      const offset = this.find(key);
+      if (offset === -1) return undefined;
+      const start = offset + RECORD_HEADER_BYTES + padded(key.length);
+      const length = this.words[offset / 4 + VALUE_LENGTH];
+      return Buffer.from(this.data.subarray(start, start + length));
+    });
+  }
+
+  /**
+   * Returns the offset of the live record for `key`, or -1 if there isn't one.
+   *
+   * The lock must be held.
+   */
+  private find(key: Buffer): number {
+    const used = this.header[USED];
+    for (let offset = 0; offset < used; offset += this.lengthAt(offset)) {
+      const words = offset / 4;
+      if (
+        this.words[words + STATE] !== LIVE ||
+        this.words[words + KEY_LENGTH] !== key.length
+      ) {
+        continue;
+      }
+      const start = offset + RECORD_HEADER_BYTES;
+      if (this.data.subarray(start, start + key.length).equals(key)) {
+        return offset;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Returns the number of bytes occupied by live records, not counting the one
+   * at `except` (if it's not -1).
+   *
+   * The lock must be held.
+   */
+  private liveBytes(except: number): number {
+    let total = 0;
+    const used = this.header[USED];
+    for (let offset = 0; offset < used; offset += this.lengthAt(offset)) {
+      if (offset !== except && this.words[offset / 4 + STATE] === LIVE) {
+        total += this.lengthAt(offset);
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Moves all live records to the beginning of {@link data}, discarding deleted
+   * records.
+   *
+   * The lock must be held.
+   */
+  private compact(): void {
+    const used = this.header[USED];
+    let write = 0;
+    for (let read = 0; read < used;) {
+      const length = this.lengthAt(read);
+      if (this.words[read / 4 + STATE] === LIVE) {
+        if (write !== read) this.data.copyWithin(write, read, read + length);
+        write += length;
+      }
+      read += length;
+    }
+    this.header[USED] = write;
+  }
+
+  /** Returns the total length in bytes of the record at `offset`. */
+  private lengthAt(offset: number): number {
+    const words = offset / 4;
+    return recordLength(
+      this.words[words + KEY_LENGTH],
+      this.words[words + VALUE_LENGTH],
+    );
+  }
+
+  /** Calls `callback` while holding the map's lock and returns its result. */
+  private withLock<T>(callback: () => T): T {
+    // This is the three-state mutex described in Ulrich Drepper's "Futexes Are
+    // Tricky", which avoids notifying when no other threads are waiting.
+    let state = Atomics.compareExchange(this.header, LOCK, UNLOCKED, LOCKED);
+    while (state !== UNLOCKED) {
+      if (
+        state === CONTENDED ||
+        Atomics.compareExchange(this.header, LOCK, LOCKED, CONTENDED) !==
+          UNLOCKED
+      ) {
+        Atomics.wait(this.header, LOCK, CONTENDED);
+      }
+      state = Atomics.compareExchange(this.header, LOCK, UNLOCKED, CONTENDED);
+    }
+
+    try {
+      return callback();
+    } finally {
+      if (Atomics.sub(this.header, LOCK, 1) !== LOCKED) {
+        Atomics.store(this.header, LOCK, UNLOCKED);
+        Atomics.notify(this.header, LOCK, 1);
+      }
+    }
+  }
+
+  /** Wakes any threads waiting for this map's entries to change. */
+  private signal(): void {
+    Atomics.add(this.header, SIGNAL, 1);
+    Atomics.notify(this.header, SIGNAL);
+  }
+}
+
+/**
+ * Returns the total length in bytes of a record whose key and value have the
+ * given lengths.
+ */
+function recordLength(keyLength: number, valueLength: number): number {
+  return RECORD_HEADER_BYTES + padded(keyLength) + padded(valueLength);
+}
+
+/** Returns `length` rounded up to a multiple of four. */
+function padded(length: number): number {
+  return Math.ceil(length / 4) * 4;
+}
@@ -0,0 +1,160 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {Writable} from 'stream';
+
+import {SyncMessagePort} from './index';
+
+/** A sentinel value used to detect when a read finds the port closed. */
+const endSentinel = Symbol('end');
+
+/**
+ * A `Writable` stream that sends each chunk written to it as a message on a
+ * {@link SyncMessagePort}, to be read on another thread by a {@link
+ * SyncReadable}.
+ *
+ * Ending the stream closes the port, which the reader sees as the end of the
+ * stream. Writing after the reader closes its port fails with an error.
+ *
+ * If the channel was created with a {@link ChannelOptions.capacity}, writes
+ * block until the reader catches up.
+ */
+export class SyncWritable extends Writable {
+  constructor(private readonly port: SyncMessagePort) {
+    super();
+  }
+
+  override _write(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: (error?: Error | null) => void,
+  ): void {
+    if (this.port.isClosed) {
+      callback(new Error("The SyncMessagePort's channel is closed."));
+      return;
+    }
+
+    try {
+      // Small Buffers may be views into a larger shared pool, so send a copy
+      // of just this chunk's bytes and transfer it rather than cloning the
+      // whole pool.
+      const bytes = new Uint8Array(chunk);
+      this.port.postMessage(bytes, [bytes.buffer]);
+    } catch (error: unknown) {
+      callback(error as Error);
+      return;
+    }
+    callback();
+  }
+
+  override _final(callback: (error?: Error | null) => void): void {
+    this.port.close();
+    callback();
+  }
+
+  override _destroy(
+    error: Error | null,
+    callback: (error?: Error | null) => void,
+  ): void {
+    this.port.close();
+    callback(error);
+  }
+}
+
+/**
+ * A reader that synchronously reads the bytes written to a {@link
+ * SyncWritable} on another thread, blocking until they arrive.
+ *
+ * Unlike a `Readable` stream, this never emits events. Once the writer ends
+ * the stream and all data has been read, reads return `null` rather than
+ * throwing an error.
+ */
+export class SyncReadable {
+  /**
+   * Bytes that have been received from {@link port} but not yet returned by a
+   * read.
+   */
+  private pending: Buffer = Buffer.alloc(0);
+
+  /** Whether the writer has ended the stream. */
+  private ended = false;
+
+  constructor(private readonly port: SyncMessagePort) {}
+
+  /**
+   * Blocks until data is available and returns up to `maxBytes` bytes of it,
+   * or all the data in the next chunk if `maxBytes` isn't passed.
+   *
+   * Returns `null` once the stream has ended and all data has been read.
+   */
+  readSync(maxBytes?: number): Buffer | null {
+    if (
+      maxBytes !== undefined &&
+      (!Number.isInteger(maxBytes) || maxBytes <= 0)
+    ) {
+      throw new Error('maxBytes must be a positive integer.');
+    }
+    if (this.pending.length === 0 && !this.receiveChunk()) return null;
+
+    const bytes = this.pending.subarray(0, maxBytes);
+    this.pending = this.pending.subarray(bytes.length);
+    return bytes;
+  }
+
+  /**
+   * Blocks until a full line is available and returns it as a UTF-8 string,
+   * without its trailing `\n` or `\r\n`.
+   *
+   * If the stream ends without a trailing newline, the remaining data is
+   * returned as the final line. Returns `null` once the stream has ended and
+   * all data has been read.
+   */
+  readLineSync(): string | null {
+    let searchFrom = 0;
+    for (;;) {
+      const newline = this.pending.indexOf(0x0a, searchFrom);
+      if (newline !== -1) {
+        const end =
+          newline > 0 && this.pending[newline - 1] === 0x0d
+            ? newline - 1
+            : newline;
+        const line = this.pending.toString('utf8', 0, end);
+        this.pending = this.pending.subarray(newline + 1);
+        return line;
+      }
+
+      searchFrom = this.pending.length;
+      if (!this.receiveChunk()) {
+        if (this.pending.length === 0) return null;
+        const line = this.pending.toString('utf8');
+        this.pending = Buffer.alloc(0);
+        return line;
+      }
+    }
+  }
+
+  /**
+   * Blocks until the next non-empty chunk arrives and appends it to {@link
+   * pending}. Returns `false` if the stream ends first.
+   */
+  private receiveChunk(): boolean {
+    while (!this.ended) {
+      const chunk = this.port.receiveMessage({closedValue: endSentinel});
+      if (chunk === endSentinel) {
+        this.ended = true;
+        break;
+      }
+
+      const bytes = chunk as Uint8Array;
+      if (bytes.length === 0) continue;
+      const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length);
+      this.pending =
+        this.pending.length === 0
+          ? buffer
+          : Buffer.concat([this.pending, buffer]);
+      return true;
+    }
+    return false;
+  }
+}
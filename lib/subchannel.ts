@@ -0,0 +1,136 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import {Transferable} from 'worker_threads';
+
+import {ReceiveMessageOptions, TimeoutException} from './index';
+
+/**
+ * The operations a {@link SyncSubchannel} needs from the `SyncMessagePort` it
+ * belongs to.
+ */
+export interface SubchannelHost {
+  /** Sends `value` on the sub-channel. */
+  post(value: unknown, transferList?: Transferable[]): void;
+
+  /**
+   * Takes the next message sent on the sub-channel, or returns `undefined` if
+   * none has arrived.
+   */
+  take(): {message: unknown} | undefined;
+
+  /**
+   * Waits until a message is available on the sub-channel or it's closed.
+   * Returns `false` if that doesn't happen within `timeout` milliseconds.
+   */
+  wait(timeout?: number): boolean;
+
+  /** Whether the sub-channel has been closed by either port. */
+  readonly closed: boolean;
+
+  /** Returns the error thrown when receiving from the closed sub-channel. */
+  closedError(): Error;
+
+  /** Closes the sub-channel. */
+  close(): void;
+}
+
+/**
+ * A logical sub-channel multiplexed over a {@link SyncMessagePort}'s channel,
+ * returned by {@link SyncMessagePort.openSubchannel}.
+ *
+ * Messages posted on a sub-channel are sent through the parent port's
+ * underlying `MessagePort`, tagged with the sub-channel they belong to, and
+ * are received only by the sub-channel with the same name on the other port.
+ * Each sub-channel has its own counter in shared memory, so receives on
+ * different sub-channels block independently of one another and of the parent
+ * port.
+ *
+ * Like {@link SyncMessagePort}, this can be "open" or "closed". Closing the
+ * parent port closes all its sub-channels, but not vice versa.
+ */
+export class SyncSubchannel {
+  /**
+   * Creates a sub-channel. This should only be called by {@link
+   * SyncMessagePort.openSubchannel}.
+   */
+  constructor(
+    /** The name the sub-channel was opened with. */
+    readonly name: string,
+    private readonly host: SubchannelHost,
+  ) {}
+
+  /** Whether the sub-channel has been closed by either port. */
+  get isClosed(): boolean {
+    return this.host.closed;
+  }
+
+  /**
+   * Sends `value` to the sub-channel of the other port with the same name.
+   *
+   * Unlike {@link SyncMessagePort.postMessage}, this never blocks: sub-channels
+   * don't have a {@link ChannelOptions.capacity}. Messages posted after the
+   * sub-channel is closed are silently dropped.
+   */
+  postMessage(value: unknown, transferList?: Transferable[]): void {
+    if (this.host.closed) return;
+    this.host.post(value, transferList);
+  }
+
+  /**
+   * Returns the next message sent on the sub-channel by the other port, if one
+   * is available, in the same format as {@link
+   * SyncMessagePort.receiveMessageIfAvailable}. This doesn't block.
+   */
+  receiveMessageIfAvailable(): {message: unknown} | undefined {
+    return this.host.take();
+  }
+
+  /**
+   * Blocks and returns the next message sent on the sub-channel by the other
+   * port.
+   *
+   * This handles {@link ReceiveMessageOptions.timeout}, {@link
+   * ReceiveMessageOptions.timeoutValue}, and {@link
+   * ReceiveMessageOptions.closedValue} in the same way as {@link
+   * SyncMessagePort.receiveMessage}.
+   */
+  receiveMessage(
+    options?: Pick<
+      ReceiveMessageOptions,
+      'timeout' | 'timeoutValue' | 'closedValue'
+    >,
+  ): unknown {
+    const deadline =
+      options?.timeout === undefined ? undefined : Date.now() + options.timeout;
+    for (;;) {
+      const received = this.host.take();
+      if (received) return received.message;
+      if (this.host.closed) break;
+
+      const remaining =
+        deadline === undefined ? undefined : Math.max(0, deadline - Date.now());
+      if (!this.host.wait(remaining)) {
+        if ('timeoutValue' in options!) return options.timeoutValue;
+        throw new TimeoutException(
+          'SyncSubchannel.receiveMessage() timed out.',
+        );
+      }
+    }
+
+    // The sub-channel is closed and all remaining messages are drained.
+    if (options && 'closedValue' in options) return options.closedValue;
+    throw this.host.closedError();
+  }
+
+  /**
+   * Closes the sub-channel for both ports.
+   *
+   * Once the other port has received all outstanding messages, its receives on
+   * this sub-channel behave as though the channel was closed.
+   */
+  close(): void {
+    this.host.close();
+  }
+}
@@ -0,0 +1,177 @@
+import {AtomicCounter} from './atomic_counter';
+
+/** The index of the closed state in the header. */
+const CLOSED = 0;
+
+/** The size in bytes of the header that precedes the table's slots. */
+const HEADER_BYTES = 8;
+
+/** The index within a slot of its state. */
+const STATE = 0;
+
+/** The index within a slot of the length of its name in bytes. */
+const NAME_LENGTH = 1;
+
+/** The size in bytes of each slot, including its name. */
+const SLOT_BYTES = 64;
+
+/** The maximum length in bytes of a sub-channel's name. */
+const MAX_NAME_BYTES = SLOT_BYTES - 8;
+
+/** The size in bytes of each slot's pair of counters. */
+const COUNTER_BYTES = 32;
+
+/** The state of a slot that hasn't been claimed by any sub-channel. */
+const EMPTY = 0;
+
+/** The state of a slot whose name is being written by the thread claiming it. */
+const CLAIMING = 1;
+
+/** The state of a slot whose name can be read. */
+const READY = 2;
+
+/**
+ * A fixed-size table of named slots stored in a `SharedArrayBuffer`, each of
+ * which holds a pair of {@link AtomicCounter}s for one of a channel's
+ * sub-channels: one for the messages posted by each side.
+ *
+ * Slots are claimed in order, so both sides of a channel agree on the slot for
+ * each name without having to communicate.
+ */
+export class SubchannelTable {
+  /** Allocates a `SharedArrayBuffer` for a table with `slots` empty slots. */
+  static allocate(slots: number): SharedArrayBuffer {
+    if (!Number.isInteger(slots) || slots <= 0) {
+      throw new Error('maxSubchannels must be a positive integer.');
+    }
+    return new SharedArrayBuffer(
+      HEADER_BYTES + slots * (SLOT_BYTES + COUNTER_BYTES),
+    );
+  }
+
+  /** The table's header, which tracks the closed state. */
+  private readonly header: Int32Array;
+
+  /** The slots' states and names, as four-byte words. */
+  private readonly words: Int32Array;
+
+  /** The slots' states and names, as bytes. Used to read and write names. */
+  private readonly bytes: Uint8Array;
+
+  /** The number of slots in the table. */
+  private readonly slots: number;
+
+  constructor(private readonly buffer: SharedArrayBuffer) {
+    this.slots =
+      (buffer.byteLength - HEADER_BYTES) / (SLOT_BYTES + COUNTER_BYTES);
+    if (!Number.isInteger(this.slots) || this.slots <= 0) {
+      throw new Error(
+        'SharedArrayBuffer was not allocated as a SubchannelTable.',
+      );
+    }
+    this.header = new Int32Array(buffer, 0, HEADER_BYTES / 4);
+    this.words = new Int32Array(
+      buffer,
+      HEADER_BYTES,
+      (this.slots * SLOT_BYTES) / 4,
+    );
+    this.bytes = new Uint8Array(buffer, HEADER_BYTES, this.slots * SLOT_BYTES);
+  }
+
+  /** Whether the table has been closed. */
+  get closed(): boolean {
+    return Atomics.load(this.header, CLOSED) !== 0;
+  }
+
+  /**
+   * Returns the index of the slot for `name`, claiming a new one if no slot
+   * has that name yet.
+   *
+   * If the table is closed, the slot's counters are closed as well. Throws an
+   * error if all the slots are claimed by other names.
+   */
+  claim(name: string): number {
+    const nameBytes = Buffer.from(name);
+    if (nameBytes.length > MAX_NAME_BYTES) {
+      throw new Error(
+        `Sub-channel names must be at most ${MAX_NAME_BYTES} bytes long.`,
+      );
+    }
+
+    for (let slot = 0; slot < this.slots; slot++) {
+      const index = (slot * SLOT_BYTES) / 4;
+      for (;;) {
+        const state = Atomics.load(this.words, index + STATE);
+        if (state === READY) {
+          if (this.nameAt(slot).equals(nameBytes)) return slot;
+          break;
+        } else if (state === CLAIMING) {
+          Atomics.wait(this.words, index + STATE, CLAIMING);
+        } else if (
+          Atomics.compareExchange(
+            this.words,
+            index + STATE,
+            EMPTY,
+            CLAIMING,
+          ) === EMPTY
+        ) {
+          this.words[index + NAME_LENGTH] = nameBytes.length;
+          this.bytes.set(nameBytes, slot * SLOT_BYTES + 8);
+          Atomics.store(this.words, index + STATE, READY);
+          Atomics.notify(this.words, index + STATE);
+
+          // If the table was closed while this was claiming the slot, the
+          // slot's counters may not have been closed with the others.
+          if (this.closed) this.closeSlot(slot);
+          return slot;
+        }
+      }
+    }
+
+    throw new Error(
+      "This SyncMessagePort's channel has no room for a sub-channel named " +
+        `"${name}".`,
+    );
+  }
+
+  /**
+   * Returns the counter in `slot` of the messages posted by the port on
+   * `side`.
+   */
+  counter(slot: number, side: number): AtomicCounter {
+    return new AtomicCounter(
+      this.buffer,
+      HEADER_BYTES +
+        this.slots * SLOT_BYTES +
+        slot * COUNTER_BYTES +
+        (side * COUNTER_BYTES) / 2,
+    );
+  }
+
+  /** Closes both counters in `slot`. */
+  closeSlot(slot: number): void {
+    this.counter(slot, 0).close();
+    this.counter(slot, 1).close();
+  }
+
+  /** Closes the table, along with the counters of every claimed slot. */
+  close(): void {
+    if (Atomics.compareExchange(this.header, CLOSED, 0, 1) !== 0) return;
+    for (let slot = 0; slot < this.slots; slot++) {
+      if (Atomics.load(this.words, (slot * SLOT_BYTES) / 4 + STATE) === EMPTY) {
+        break;
+      }
+      this.closeSlot(slot);
+    }
+  }
+
+  /** Returns the name of the claimed slot at `slot`. */
+  private nameAt(slot: number): Buffer {
+    const start = slot * SLOT_BYTES + 8;
+    return Buffer.from(
+      this.bytes.buffer,
+      this.bytes.byteOffset + start,
+      this.words[(slot * SLOT_BYTES) / 4 + NAME_LENGTH],
+    );
+  }
+}
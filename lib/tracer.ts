@@ -0,0 +1,88 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as diagnosticsChannel from 'diagnostics_channel';
+import * as v8 from 'v8';
+import {threadId} from 'worker_threads';
+
+import {SyncMessagePortInterceptor} from './index';
+
+/**
+ * The name of the `diagnostics_channel` that interceptors created by {@link
+ * createTracer} publish {@link TraceRecord}s to.
+ */
+export const traceChannelName = 'sync-message-port';
+
+/** A record of a port's activity published by {@link createTracer}. */
+export interface TraceRecord {
+  /** The time the activity happened, in milliseconds since the epoch. */
+  timestamp: number;
+
+  /** Whether a message was sent or received, or the port was closed. */
+  direction: 'send' | 'receive' | 'close';
+
+  /** The label passed to {@link createTracer}, if any. */
+  label?: string;
+
+  /**
+   * An estimate of the message's size in bytes, based on its serialized form,
+   * or `undefined` if it can't be serialized on its own (for example, because
+   * it contains a `MessagePort`) or the port was closed.
+   */
+  size?: number;
+
+  /** See {@link InterceptedMessageInfo.blockingTime}. */
+  blockingTime: number;
+
+  /** The ID of the thread the port belongs to. */
+  threadId: number;
+}
+
+/**
+ * Returns an interceptor that publishes a {@link TraceRecord} to the
+ * `diagnostics_channel` named {@link traceChannelName} for each message a port
+ * sends or receives, and when it's closed.
+ *
+ * Pass the interceptor to {@link SyncMessagePort.use}. The `label` is included
+ * in each record to distinguish between ports. Records are only created while
+ * the channel has subscribers.
+ */
+export function createTracer(label?: string): SyncMessagePortInterceptor {
+  const channel = diagnosticsChannel.channel(traceChannelName);
+  // Only estimate sizes if a record is actually published, because that
+  // requires serializing the message.
+  function publish(
+    direction: TraceRecord['direction'],
+    blockingTime: number,
+    size?: () => number | undefined,
+  ): void {
+    if (!channel.hasSubscribers) return;
+    const record: TraceRecord = {
+      timestamp: performance.timeOrigin + performance.now(),
+      direction,
+      label,
+      size: size?.(),
+      blockingTime,
+      threadId,
+    };
+    channel.publish(record);
+  }
+
+  return {
+    onSend: (message, {blockingTime}) =>
+      publish('send', blockingTime, () => estimateSize(message)),
+    onReceive: (message, {blockingTime}) =>
+      publish('receive', blockingTime, () => estimateSize(message)),
+    onClose: () => publish('close', 0),
+  };
+}
+
+/** Returns the size of `message` when serialized, if it can be serialized. */
+function estimateSize(message: unknown): number | undefined {
+  try {
+    return v8.serialize(message).length;
+  } catch {
+    return undefined;
+  }
+}
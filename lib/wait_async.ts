@@ -0,0 +1,25 @@
+/** The value returned by {@link waitAsync}. */
+type WaitAsyncResult =
+  | {async: false; value: 'not-equal' | 'timed-out'}
+  | {async: true; value: Promise<'ok' | 'timed-out'>};
+
+/**
+ * `Atomics.waitAsync()`, which isn't included in the TypeScript libraries this
+ * package targets.
+ */
+export const waitAsync = (
+  Atomics as unknown as {
+    waitAsync(
+      typedArray: Int32Array,
+      index: number,
+      value: number,
+      timeout?: number,
+    ): WaitAsyncResult;
+    waitAsync(
+      typedArray: BigInt64Array,
+      index: number,
+      value: bigint,
+      timeout?: number,
+    ): WaitAsyncResult;
+  }
+).waitAsync;
@@ -0,0 +1,346 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+import * as os from 'os';
+import * as p from 'path';
+import {
+  MessageChannel,
+  MessagePort,
+  Worker,
+  WorkerOptions,
+} from 'worker_threads';
+
+import {IdleQueue} from './idle_queue';
+import {SyncMessagePort} from './index';
+
+/** Options that can be passed to `new SyncWorkerPool()`. */
+export interface SyncWorkerPoolOptions {
+  /** The number of workers in the pool. Defaults to the number of CPUs. */
+  size?: number;
+
+  /**
+   * Additional options for each worker in the pool, such as `execArgv` or
+   * `resourceLimits`.
+   */
+  workerOptions?: Omit<WorkerOptions, 'eval' | 'transferList' | 'workerData'>;
+}
+
+/** The data passed to `worker_pool_worker` when it's spawned. */
+export interface SyncWorkerPoolWorkerData {
+  /** The path of the module whose export handles tasks. */
+  modulePath: string;
+
+  /**
+   * A port on which the worker receives a port from {@link
+   * SyncMessagePort.createChannel} for each thread that can send it tasks.
+   */
+  control: MessagePort;
+}
+
+/**
+ * The state that {@link SyncWorkerPool.share} sends to the pool it creates on
+ * another thread.
+ */
+interface PoolSetup {
+  /** The buffer for the {@link IdleQueue} shared by every thread. */
+  idleBuffer: SharedArrayBuffer;
+
+  /** A port connected to each worker, in order. */
+  ports: MessagePort[];
+}
+
+/**
+ * A message that {@link SyncWorkerPool} sends to pools on other threads when
+ * it replaces a worker that crashed.
+ */
+interface WorkerReplacement {
+  /** The index of the replaced worker. */
+  index: number;
+
+  /** A port connected to the new worker. */
+  port: MessagePort;
+}
+
+/** The state of a {@link SyncWorkerPool} on the thread that created it. */
+interface OwnerState {
+  /** The path of the module whose export handles tasks. */
+  modulePath: string;
+
+  /** See {@link SyncWorkerPoolOptions.workerOptions}. */
+  workerOptions?: SyncWorkerPoolOptions['workerOptions'];
+
+  /** The buffer for the {@link IdleQueue}. */
+  idleBuffer: SharedArrayBuffer;
+
+  /** The pool's workers, in order. */
+  workers: Worker[];
+
+  /**
+   * The other ends of each worker's {@link SyncWorkerPoolWorkerData.control}
+   * port, in order.
+   */
+  workerControls: MessagePort[];
+
+  /** The ports connected to each pool created by {@link SyncWorkerPool.share}. */
+  connections: SyncMessagePort[];
+}
+
+/**
+ * A fixed-size pool of workers that synchronously run tasks.
+ *
+ * Each worker loads a module whose default export (or `module.exports` itself,
+ * if it's a function) is called with each task and may return a `Promise`.
+ * {@link run} sends a task to an idle worker and blocks until it completes.
+ *
+ * The pool can be used from multiple threads at once using {@link share}. All
+ * threads claim workers from a shared queue of idle workers. If a worker
+ * crashes, the thread that created the pool replaces it with a new one.
+ */
+export class SyncWorkerPool {
+  /** The queue of idle workers shared by every thread using this pool. */
+  private readonly idle: IdleQueue;
+
+  /** The ports connected to each worker, in order. */
+  private readonly ports: SyncMessagePort[];
+
+  /**
+   * The port on which a pool created by {@link share} receives {@link
+   * WorkerReplacement}s from the thread that owns the pool.
+   */
+  private readonly control?: SyncMessagePort;
+
+  /**
+   * The state used to spawn and communicate with workers, if this thread owns
+   * the pool.
+   */
+  private readonly owner?: OwnerState;
+
+  /** Whether {@link close} has been called. */
+  private closed = false;
+
+  /**
+   * Creates a pool whose workers load the module at `modulePath` with
+   * `require()`. The path must be absolute or resolvable from this package.
+   *
+   * Alternatively, `modulePath` may be a port returned by {@link share} on
+   * another thread, in which case this uses the same workers as that pool.
+   */
+  constructor(
+    modulePath: string | MessagePort,
+    options?: SyncWorkerPoolOptions,
+  ) {
+    if (typeof modulePath !== 'string') {
+      this.control = new SyncMessagePort(modulePath);
+      const setup = this.control.receiveMessage() as PoolSetup;
+      this.idle = new IdleQueue(setup.idleBuffer);
+      this.ports = setup.ports.map(port => new SyncMessagePort(port));
+      return;
+    }
+
+    const size = options?.size ?? os.cpus().length;
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new Error('SyncWorkerPool size must be a positive integer.');
+    }
+    const idleBuffer = IdleQueue.allocate(size);
+    this.idle = new IdleQueue(idleBuffer);
+    this.ports = [];
+    this.owner = {
+      modulePath,
+      workerOptions: options?.workerOptions,
+      idleBuffer,
+      workers: [],
+      workerControls: [],
+      connections: [],
+    };
+    for (let i = 0; i < size; i++) {
+      this.spawn(i);
+    }
+  }
+
+  /**
+   * Sends `task` to an idle worker and blocks until it returns a result, which
+   * this then returns. If no workers are idle, this first blocks until one is.
+   *
+   * If the task throws an error (or returns a rejected `Promise`), this throws
+   * the same error. If the worker crashes while running the task, this throws a
+   * {@link PeerTerminatedException} and the worker is replaced.
+   */
+  run(task: unknown): unknown {
+    // Closing a pool created from a port returned by `share()` doesn't close
+    // the shared queue, so this can't rely on `claim()` to throw.
+    if (this.closed) throw new Error('The SyncWorkerPool is closed.');
+
+    for (;;) {
+      const index = this.idle.claim(
+        this.owner && (crashed => this.replace(crashed)),
+      );
+      this.receiveReplacements();
+      const port = this.ports[index];
+
+      // The worker may have crashed while it was idle.
+      if (port.isClosed) {
+        this.workerCrashed(index);
+        continue;
+      }
+
+      let crashed = false;
+      try {
+        port.postMessage(task);
+        return port.receiveMessage();
+      } catch (error: unknown) {
+        crashed = port.isClosed;
+        throw error;
+      } finally {
+        if (crashed) {
+          this.workerCrashed(index);
+        } else {
+          this.idle.release(index);
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns a port that can be sent to another thread and passed to `new
+   * SyncWorkerPool()` there, to run tasks on this pool's workers from that
+   * thread.
+   *
+   * This may only be called on the thread that created the pool.
+   */
+  share(): MessagePort {
+    if (!this.owner) {
+      throw new Error(
+        'SyncWorkerPool.share() may only be called on the thread that ' +
+          'created the pool.',
+      );
+    }
+
+    const channel = SyncMessagePort.createChannel();
+    const connection = new SyncMessagePort(channel.port1);
+    const ports = this.ports.map((_, index) => this.connectWorker(index));
+    const setup: PoolSetup = {idleBuffer: this.owner.idleBuffer, ports};
+    connection.postMessage(setup, ports);
+    this.owner.connections.push(connection);
+    return channel.port2;
+  }
+
+  /**
+   * Closes the pool.
+   *
+   * If this thread created the pool, this causes any outstanding calls to {@link
+   * run} on any thread to throw an error, and each worker exits once it
+   * finishes its current task. Otherwise, this only closes this thread's
+   * connection to the workers.
+   */
+  close(): void {
+    this.closed = true;
+    for (const port of this.ports) {
+      port.close();
+    }
+    this.control?.close();
+    if (!this.owner) return;
+
+    this.idle.close();
+    for (const connection of this.owner.connections) {
+      connection.close();
+    }
+    // Each worker closes its ports and exits once its control port closes, so
+    // there's no need to keep the process alive until they do.
+    for (const control of this.owner.workerControls) {
+      control.close();
+    }
+    for (const worker of this.owner.workers) {
+      worker.unref();
+    }
+  }
+
+  /** Spawns a worker at `index`, replacing any existing worker there. */
+  private spawn(index: number): void {
+    const owner = this.owner!;
+    const control = new MessageChannel();
+    const workerData: SyncWorkerPoolWorkerData = {
+      modulePath: owner.modulePath,
+      control: control.port2,
+    };
+    const worker = new Worker(
+      p.join(__dirname, `worker_pool_worker${p.extname(__filename)}`),
+      {...owner.workerOptions, workerData, transferList: [control.port2]},
+    );
+    // A worker that crashes fails the task it was running, if any, so there's
+    // no need to surface its error again.
+    worker.on('error', () => {});
+    worker.once('exit', () => {
+      if (!this.closed && owner.workers[index] === worker) {
+        this.replace(index);
+      }
+    });
+
+    void owner.workers[index]?.terminate();
+    owner.workerControls[index]?.close();
+    owner.workers[index] = worker;
+    owner.workerControls[index] = control.port1;
+
+    this.ports[index]?.close();
+    this.ports[index] = new SyncMessagePort(this.connectWorker(index));
+    for (const connection of owner.connections) {
+      const port = this.connectWorker(index);
+      const replacement: WorkerReplacement = {index, port};
+      connection.postMessage(replacement, [port]);
+    }
+  }
+
+  /**
+   * Creates a channel to the worker at `index` and returns the port that's
+   * not sent to the worker.
+   */
+  private connectWorker(index: number): MessagePort {
+    const channel = SyncMessagePort.createChannel();
+    this.owner!.workerControls[index].postMessage(channel.port2, [
+      channel.port2,
+    ]);
+    return channel.port1;
+  }
+
+  /** Replaces the crashed worker at `index` and marks the new one as idle. */
+  private replace(index: number): void {
+    this.spawn(index);
+    this.idle.release(index);
+  }
+
+  /**
+   * Handles the worker at `index` crashing while it was claimed by this thread.
+   *
+   * If this thread owns the pool, this replaces the worker immediately.
+   * Otherwise, this marks it as crashed so the owning thread replaces it, either
+   * when the worker's `'exit'` event fires or, if that thread is blocked in
+   * {@link run}, when it next claims a worker.
+   */
+  private workerCrashed(index: number): void {
+    if (this.owner) {
+      this.replace(index);
+      return;
+    }
+
+    // If the owning thread already replaced the worker, there's nothing left
+    // to recover.
+    const port = this.ports[index];
+    this.receiveReplacements();
+    if (this.ports[index] === port) this.idle.markCrashed(index);
+  }
+
+  /**
+   * Updates {@link ports} with any {@link WorkerReplacement}s sent by the
+   * thread that owns the pool.
+   */
+  private receiveReplacements(): void {
+    if (!this.control) return;
+    for (;;) {
+      const received = this.control.receiveMessageIfAvailable();
+      if (!received) return;
+      const {index, port} = received.message as WorkerReplacement;
+      this.ports[index].close();
+      this.ports[index] = new SyncMessagePort(port);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+// Copyright 2026 Google LLC. Use of this source code is governed by an
+// MIT-style license that can be found in the LICENSE file or at
+// https://opensource.org/licenses/MIT.
+
+// The entrypoint for workers spawned by `SyncWorkerPool`.
+
+import {MessagePort, workerData} from 'worker_threads';
+
+import {SyncMessagePort} from './index';
+import {SyncWorkerPoolWorkerData} from './worker_pool';
+
+const {modulePath, control} = workerData as SyncWorkerPoolWorkerData;
+
+/** The function that handles each task. */
+let handler: (task: unknown) => unknown;
+try {
+  const exports = require(modulePath);
+  handler = typeof exports === 'function' ? exports : exports.default;
+  if (typeof handler !== 'function') {
+    throw new Error(`${modulePath} doesn't export a function.`);
+  }
+} catch (error: unknown) {
+  // Report the failure to every task rather than leaving callers blocked.
+  handler = () => {
+    throw error;
+  };
+}
+
+/** The ports on which this worker receives tasks. */
+const ports: SyncMessagePort[] = [];
+
+control.on('message', (rawPort: MessagePort) => {
+  const port = new SyncMessagePort(rawPort);
+  ports.push(port);
+  port.on('message', async (task: unknown) => {
+    try {
+      port.postMessage(await handler(task));
+    } catch (error: unknown) {
+      port.postError(error instanceof Error ? error : new Error(String(error)));
+    }
+  });
+});
+
+// The pool closes the control port when it's closed.
+control.once('close', () => {
+  for (const port of ports) {
+    port.close();
+  }
+});